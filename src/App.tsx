@@ -4,6 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import RunDetail from "./pages/RunDetail";
+import Compare from "./pages/Compare";
+import TwoWay from "./pages/TwoWay";
+import Laps from "./pages/Laps";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +21,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/runs/:id" element={<RunDetail />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/two-way" element={<TwoWay />} />
+          <Route path="/laps" element={<Laps />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
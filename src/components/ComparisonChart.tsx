@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartOptions,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+export interface ComparisonSeries {
+  label: string;
+  color: string;
+  points: { x: number; y: number }[];
+  dashed?: boolean;
+}
+
+interface ComparisonChartProps {
+  title: string;
+  series: ComparisonSeries[];
+  xLabel: string;
+  yLabel: string;
+  yUnit: string;
+  yDigits?: number;
+  beginAtZero?: boolean;
+}
+
+const axisTitle = (text: string) => ({
+  display: true,
+  text,
+  color: 'hsl(0 0% 20%)',
+  font: {
+    size: 14,
+    weight: 'bold' as const,
+  },
+});
+
+const axisTicks = {
+  color: 'hsl(0 0% 30%)',
+  font: {
+    size: 12,
+    weight: 'bold' as const,
+  },
+};
+
+const axisGrid = {
+  color: 'hsl(220 15% 45%)',
+  lineWidth: 1,
+  drawTicks: true,
+};
+
+// Overlays several traces on shared numeric axes, e.g. speed of each run against time since launch
+export const ComparisonChart: React.FC<ComparisonChartProps> = ({
+  title,
+  series,
+  xLabel,
+  yLabel,
+  yUnit,
+  yDigits = 1,
+  beginAtZero = true,
+}) => {
+  const chartData = {
+    datasets: series.map(s => ({
+      label: s.label,
+      data: s.points,
+      borderColor: s.color,
+      backgroundColor: s.color,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      borderWidth: 2,
+      tension: 0.1,
+      fill: false,
+      borderDash: s.dashed ? [5, 5] : [],
+    })),
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    parsing: false,
+    interaction: {
+      mode: 'nearest',
+      axis: 'x',
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top',
+        labels: {
+          color: 'hsl(0 0% 15%)',
+          font: {
+            size: 12,
+            weight: 'bold',
+          },
+        },
+      },
+      title: {
+        display: true,
+        text: title,
+        color: 'hsl(0 0% 10%)',
+        font: {
+          size: 18,
+          weight: 'bold',
+        },
+      },
+      tooltip: {
+        backgroundColor: 'hsl(220 15% 12%)',
+        titleColor: 'hsl(0 0% 98%)',
+        bodyColor: 'hsl(0 0% 98%)',
+        cornerRadius: 8,
+        callbacks: {
+          title: (context) => `${xLabel}: ${context[0].parsed.x.toFixed(2)}`,
+          label: (context) => `${context.dataset.label}: ${context.parsed.y.toFixed(yDigits)} ${yUnit}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear',
+        title: axisTitle(xLabel),
+        ticks: axisTicks,
+        grid: axisGrid,
+      },
+      y: {
+        title: axisTitle(yLabel),
+        ticks: axisTicks,
+        grid: axisGrid,
+        beginAtZero,
+      },
+    },
+  };
+
+  return (
+    <div className="h-64 w-full">
+      <Line data={chartData} options={options} />
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { FileDown, ImageDown } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { Timeslip, getTimeslipLines } from '../utils/Timeslip';
+import { timeslipToPdf, timeslipToPng } from '../utils/TimeslipImage';
+import { downloadFile, getRunFileStem } from '../utils/Download';
+import { UnitSystem } from '../utils/Units';
+
+interface DragTimeslipProps {
+  timeslip: Timeslip;
+  unitSystem?: UnitSystem;
+}
+
+const EMPHASIS_CLASSES = {
+  strong: 'font-bold',
+  alert: 'font-bold text-destructive',
+};
+
+export const DragTimeslip: React.FC<DragTimeslipProps> = ({ timeslip, unitSystem = 'metric' }) => {
+  const exportSlip = useCallback(async (format: 'png' | 'pdf') => {
+    const stem = `${getRunFileStem(timeslip.createdAt)}-timeslip`;
+    try {
+      if (format === 'png') {
+        downloadFile(await timeslipToPng(timeslip, unitSystem), `${stem}.png`, 'image/png');
+      } else {
+        downloadFile(await timeslipToPdf(timeslip, unitSystem), `${stem}.pdf`, 'application/pdf');
+      }
+      toast({
+        title: "Timeslip Exported",
+        description: `Saved as ${format.toUpperCase()}`,
+      });
+    } catch (error) {
+      console.error('Failed to export timeslip:', error);
+      toast({
+        title: "Export Failed",
+        description: "The timeslip could not be rendered",
+        variant: "destructive",
+      });
+    }
+  }, [timeslip, unitSystem]);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="text-center font-mono">
+        <h3 className="text-lg font-bold">SPEEDSNAP</h3>
+        <div className="text-xs text-muted-foreground">GPS DRAG TIMESLIP</div>
+      </div>
+
+      {/* Classic slip: details, reaction time apart from the elapsed times, totals */}
+      <div className="font-mono text-sm space-y-1">
+        {getTimeslipLines(timeslip, unitSystem).map((line, index) =>
+          line.kind === 'rule' ? (
+            <Separator key={index} className="my-2" />
+          ) : (
+            <div key={index} className={`flex justify-between gap-4 ${line.emphasis ? EMPHASIS_CLASSES[line.emphasis] : ''}`}>
+              <span className={line.emphasis ? '' : 'text-muted-foreground'}>{line.label}</span>
+              <span className="text-right">{line.value}</span>
+            </div>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Elapsed times start when the car moves, not at the green, so the reaction time is kept
+        out of them. R/T+ET is what decides a race from a shared tree.
+      </p>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => exportSlip('png')}>
+          <ImageDown className="w-4 h-4 mr-2" />
+          PNG
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={() => exportSlip('pdf')}>
+          <FileDown className="w-4 h-4 mr-2" />
+          PDF
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { DragResult, TREE_PRESETS, TreeLight, TreePhase, TreeType } from '../utils/DragTree';
+import { formatReactionTime } from '../utils/Timeslip';
+
+interface DragTreeDisplayProps {
+  phase: TreePhase;
+  lights: TreeLight[];
+  tree: TreeType;
+  result: DragResult | null;
+}
+
+const PHASE_HINTS: Record<TreePhase, string> = {
+  idle: 'Start a run to pre-stage',
+  preStaged: 'Pre-staged: roll up to the line and stop',
+  staged: 'Staged: hold the car still',
+  countdown: 'Watch the tree',
+  green: 'Go!',
+  red: 'Red light: moved before the green',
+};
+
+const Bulb: React.FC<{ on: boolean; onClass: string; label: string }> = ({ on, onClass, label }) => (
+  <div
+    aria-label={`${label} ${on ? 'on' : 'off'}`}
+    className={`w-8 h-8 rounded-full border-2 border-border transition-colors ${on ? onClass : 'bg-muted'}`}
+  />
+);
+
+export const DragTreeDisplay: React.FC<DragTreeDisplayProps> = ({ phase, lights, tree, result }) => {
+  const isLit = (light: TreeLight) => lights.includes(light);
+  const preStaged = phase !== 'idle';
+  const staged = preStaged && phase !== 'preStaged';
+
+  return (
+    <Card className="p-4 flex items-center gap-6">
+      <div className="flex flex-col items-center gap-2 shrink-0" aria-label="Christmas tree">
+        {/* Pre-stage and stage beams */}
+        <div className="flex gap-2">
+          <Bulb on={preStaged} onClass="bg-amber-200" label="Pre-stage" />
+          <Bulb on={staged} onClass="bg-amber-200" label="Stage" />
+        </div>
+        <Bulb on={isLit('amber1')} onClass="bg-amber-500" label="Amber 1" />
+        <Bulb on={isLit('amber2')} onClass="bg-amber-500" label="Amber 2" />
+        <Bulb on={isLit('amber3')} onClass="bg-amber-500" label="Amber 3" />
+        <Bulb on={isLit('green')} onClass="bg-green-500" label="Green" />
+        <Bulb on={isLit('red')} onClass="bg-destructive" label="Red" />
+      </div>
+
+      <div className="flex-1 space-y-2">
+        <div className="text-xs text-muted-foreground">{TREE_PRESETS[tree].name}</div>
+        <div className={`font-semibold ${phase === 'red' ? 'text-destructive' : ''}`}>{PHASE_HINTS[phase]}</div>
+        {result && (
+          <div>
+            <div className="text-xs text-muted-foreground">Reaction Time</div>
+            <div className={`text-2xl font-bold font-mono ${result.redLight ? 'text-destructive' : 'text-primary'}`}>
+              {formatReactionTime(result.reactionTime)}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
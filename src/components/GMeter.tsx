@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Crosshair } from 'lucide-react';
+import { STANDARD_GRAVITY } from '../utils/BrakingAnalysis';
+import { CalibrationState, VehicleAcceleration } from '../utils/MountingCalibration';
+
+interface GMeterProps {
+  read: () => VehicleAcceleration | null;
+  calibrationState: CalibrationState;
+  onRecalibrate: () => void;
+  disabled?: boolean;
+}
+
+const RANGE_G = 1.2; // g at the edge of the dial
+const REFRESH_INTERVAL = 100; // ms
+
+const CALIBRATION_HINTS: Record<CalibrationState, string> = {
+  uncalibrated: 'Hold still to level the mounting',
+  levelled: 'Accelerate to find the forward axis',
+  calibrated: 'Mounting calibrated',
+};
+
+export const GMeter: React.FC<GMeterProps> = ({ read, calibrationState, onRecalibrate, disabled = false }) => {
+  const [reading, setReading] = useState<VehicleAcceleration | null>(null);
+
+  // Sensor readings arrive far faster than the display needs to refresh
+  useEffect(() => {
+    const interval = setInterval(() => setReading(read()), REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [read]);
+
+  const longitudinalG = reading ? reading.longitudinal / STANDARD_GRAVITY : 0;
+  const lateralG = reading ? reading.lateral / STANDARD_GRAVITY : 0;
+  const clamp = (g: number) => Math.max(-RANGE_G, Math.min(RANGE_G, g));
+
+  // Forward acceleration plots upwards, acceleration to the left plots left
+  const dotX = 50 - clamp(lateralG) / RANGE_G * 45;
+  const dotY = 50 - clamp(longitudinalG) / RANGE_G * 45;
+
+  return (
+    <Card className="p-4 flex items-center gap-4">
+      <svg viewBox="0 0 100 100" className="w-24 h-24 shrink-0" aria-label="G-meter">
+        <circle cx="50" cy="50" r="45" fill="none" className="stroke-border" strokeWidth="1" />
+        <circle cx="50" cy="50" r={45 / RANGE_G * 0.5} fill="none" className="stroke-border" strokeWidth="0.5" strokeDasharray="2 2" />
+        <line x1="5" y1="50" x2="95" y2="50" className="stroke-border" strokeWidth="0.5" />
+        <line x1="50" y1="5" x2="50" y2="95" className="stroke-border" strokeWidth="0.5" />
+        {reading && <circle cx={dotX} cy={dotY} r="5" className="fill-primary" />}
+      </svg>
+
+      <div className="flex-1 space-y-1">
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">Longitudinal</div>
+            {reading ? `${longitudinalG.toFixed(2)} g` : '—'}
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Lateral</div>
+            {reading ? `${lateralG.toFixed(2)} g` : '—'}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">{CALIBRATION_HINTS[calibrationState]}</span>
+          {calibrationState !== 'uncalibrated' && (
+            <Button variant="ghost" size="sm" onClick={onRecalibrate} disabled={disabled}>
+              <Crosshair className="w-4 h-4 mr-1" />
+              Recalibrate
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Flag, MapPin, Play, RotateCcw, Square } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useGPSTracking } from '../hooks/useGPSTracking';
+import { useSettings, useUnitSystem } from '../hooks/useSettings';
+import { Lap, LapState, LapTimer, createLine, formatLapTime } from '../utils/LapTimer';
+import { SessionFix } from '../utils/MeasurementSession';
+import { formatDistance, formatSpeed } from '../utils/Units';
+
+// Lap timing has no run timer and shows GPS speed as measured
+const noRunTimer = () => null;
+const unfiltered = (speed: number) => speed;
+
+const formatDelta = (delta: number): string => `${delta >= 0 ? '+' : '−'}${Math.abs(delta).toFixed(2)}`;
+
+export const LapTimerView: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const unitSystem = useUnitSystem();
+  const lapTimer = useMemo(() => new LapTimer(), []);
+  const [isTracking, setIsTracking] = useState(false);
+  const [speed, setSpeed] = useState(0);
+  const [gpsAccuracy, setGpsAccuracy] = useState<number | null>(null);
+  const [laps, setLaps] = useState<Lap[]>([]);
+  const [lapState, setLapState] = useState<LapState>({ lap: null, elapsed: null, delta: null });
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [heading, setHeading] = useState('');
+  const lastFixRef = useRef<SessionFix | null>(null);
+
+  const handleFix = useCallback((fix: SessionFix) => {
+    lastFixRef.current = fix;
+    lapTimer.pushFix(fix);
+    setSpeed(fix.speed);
+  }, [lapTimer]);
+
+  const {
+    gpsStatus,
+    gpsHz,
+    now,
+    requestGPSPermission,
+    startGPSTracking,
+    stopGPSTracking,
+  } = useGPSTracking({
+    getStartTime: noRunTimer,
+    updateKalmanFilter: unfiltered,
+    onFix: handleFix,
+    onGpsAccuracyUpdate: setGpsAccuracy,
+  });
+
+  // The stored line is the one laps are timed against
+  useEffect(() => {
+    lapTimer.setLine(settings.lapLine);
+  }, [lapTimer, settings.lapLine]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      lapTimer.on('update', setLapState),
+      lapTimer.on('lap', (lap, isBest) => {
+        setLaps(lapTimer.laps);
+        toast({
+          title: isBest ? `Best Lap! Lap ${lap.number}` : `Lap ${lap.number}`,
+          description: formatLapTime(lap.time),
+        });
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [lapTimer]);
+
+  // Run the lap time between fixes: the last fix's timestamp carried on by the location clock
+  const lapRunning = isTracking && lapState.lap !== null;
+  useEffect(() => {
+    if (!lapRunning) return;
+
+    let frameId: number;
+    const tick = () => {
+      const fix = lastFixRef.current;
+      if (fix) setLapState(lapTimer.getState(fix.timestamp + now() - fix.clock));
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [lapRunning, lapTimer, now]);
+
+  // Stop watching the position when leaving the screen
+  useEffect(() => stopGPSTracking, [stopGPSTracking]);
+
+  const toggleTracking = useCallback(async () => {
+    if (isTracking) {
+      stopGPSTracking();
+      setIsTracking(false);
+      return;
+    }
+
+    if (!(await requestGPSPermission())) return;
+    startGPSTracking({
+      enableHighAccuracy: true,
+      maximumAge: 0,
+      timeout: 5000,
+    });
+    setIsTracking(true);
+  }, [isTracking, requestGPSPermission, startGPSTracking, stopGPSTracking]);
+
+  const resetLaps = useCallback(() => {
+    lapTimer.reset();
+    setLaps([]);
+  }, [lapTimer]);
+
+  // Lay the line across the direction of travel at the current position
+  const dropLineHere = useCallback(() => {
+    const line = lapTimer.dropLine();
+    if (!line) {
+      toast({
+        title: "No Direction Yet",
+        description: "Drive across the line position; the line is laid across your direction of travel",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateSettings({ lapLine: line });
+    toast({
+      title: "Start/Finish Line Set",
+      description: `Crossed heading ${line.heading.toFixed(0)}°`,
+    });
+  }, [lapTimer, updateSettings]);
+
+  const setLineFromCoordinates = useCallback(() => {
+    const values = { latitude: Number(latitude), longitude: Number(longitude), heading: Number(heading) };
+    const valid = latitude !== '' && longitude !== '' && heading !== '' &&
+      Math.abs(values.latitude) <= 90 && Math.abs(values.longitude) <= 180 &&
+      values.heading >= 0 && values.heading < 360;
+
+    if (!valid) {
+      toast({
+        title: "Invalid Line",
+        description: "Enter a latitude, a longitude and a heading between 0 and 359°",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateSettings({ lapLine: createLine(values, values.heading) });
+    setLatitude('');
+    setLongitude('');
+    setHeading('');
+  }, [latitude, longitude, heading, updateSettings]);
+
+  const bestLap = laps.reduce<Lap | null>((best, lap) => (!best || lap.time < best.time ? lap : best), null);
+  const lastLap = laps.length > 0 ? laps[laps.length - 1] : null;
+  const line = settings.lapLine;
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative flex items-center justify-center gap-2">
+          <div className="absolute left-0">
+            <Button variant="ghost" size="icon" asChild aria-label="Back to timer">
+              <Link to="/">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+          </div>
+          <Flag className="w-6 h-6 text-primary" />
+          <h1 className="text-2xl font-bold">Lap Timer</h1>
+        </div>
+
+        {/* Current lap */}
+        <Card className="p-6 space-y-4 text-center">
+          <div className="text-sm text-muted-foreground">
+            {lapState.lap !== null ? `Lap ${lapState.lap}` : line ? 'Cross the line to start' : 'Set a start/finish line'}
+          </div>
+          <div className="text-5xl font-bold font-mono text-primary">{formatLapTime(lapState.elapsed)}</div>
+          <div className={`text-2xl font-bold font-mono ${lapState.delta === null ? 'text-muted-foreground' : lapState.delta < 0 ? 'text-green-600' : 'text-destructive'}`}>
+            {lapState.delta !== null ? formatDelta(lapState.delta) : '±-.--'}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-xs text-muted-foreground">Last</div>
+              <div className="font-bold font-mono">{formatLapTime(lastLap?.time ?? null)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-xs text-muted-foreground">Best</div>
+              <div className="font-bold font-mono text-green-600">{formatLapTime(bestLap?.time ?? null)}</div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg">
+              <div className="text-xs text-muted-foreground">Speed</div>
+              <div className="font-bold font-mono">{formatSpeed(speed, unitSystem)}</div>
+            </div>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {gpsStatus} • GPS {gpsAccuracy !== null ? `±${formatDistance(gpsAccuracy, unitSystem, 0)}` : '±—'} • {gpsHz !== null ? `${gpsHz.toFixed(1)} Hz` : '— Hz'}
+          </div>
+        </Card>
+
+        {/* Controls */}
+        <div className="flex gap-3">
+          <Button
+            onClick={toggleTracking}
+            variant={isTracking ? "destructive" : "default"}
+            className="flex-1 h-12 text-lg font-semibold"
+          >
+            {isTracking ? <Square className="w-5 h-5 mr-2" /> : <Play className="w-5 h-5 mr-2" />}
+            {isTracking ? 'Stop' : 'Start'}
+          </Button>
+          <Button onClick={resetLaps} variant="outline" size="lg" className="h-12" aria-label="Clear laps">
+            <RotateCcw className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {/* Start/finish line */}
+        <Card className="p-4 space-y-3">
+          <h3 className="text-lg font-semibold">Start/Finish Line</h3>
+          <div className="text-sm text-muted-foreground">
+            {line
+              ? `${line.latitude.toFixed(6)}, ${line.longitude.toFixed(6)} · crossed heading ${line.heading.toFixed(0)}° · ${formatDistance(line.width, unitSystem, 0)} wide`
+              : 'No line set'}
+          </div>
+          <Button variant="outline" className="w-full" onClick={dropLineHere} disabled={!isTracking}>
+            <MapPin className="w-4 h-4 mr-2" />
+            Drop Line Here
+          </Button>
+          <div className="grid grid-cols-3 gap-2">
+            <Input type="number" inputMode="decimal" placeholder="Latitude" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+            <Input type="number" inputMode="decimal" placeholder="Longitude" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+            <Input type="number" inputMode="decimal" placeholder="Heading °" value={heading} onChange={(e) => setHeading(e.target.value)} />
+          </div>
+          <Button variant="outline" className="w-full" onClick={setLineFromCoordinates}>
+            Set Line by Coordinates
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Drop the line while driving across it, or enter its centre and the direction laps
+            cross it in. Crossings are interpolated between GPS fixes, so lap times are not
+            limited to the fix rate.
+          </p>
+        </Card>
+
+        {/* Laps */}
+        {laps.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-lg font-bold mb-2">Laps</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lap</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                  <TableHead className="text-right">Gap</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {laps.map(lap => (
+                  <TableRow key={lap.number}>
+                    <TableCell className="font-semibold">{lap.number}</TableCell>
+                    <TableCell className={`text-right font-mono ${lap === bestLap ? 'font-bold text-green-600' : ''}`}>
+                      {formatLapTime(lap.time)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">
+                      {lap === bestLap ? '—' : formatDelta(lap.time - bestLap.time)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
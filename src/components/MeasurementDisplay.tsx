@@ -1,29 +1,41 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Gauge } from 'lucide-react';
+import { UnitSystem, speedUnit, toDisplaySpeed } from '../utils/Units';
 
 interface MeasurementDisplayProps {
   speed: number;
   elapsedTime: number;
   status: string;
   isRunning: boolean;
+  unitSystem?: UnitSystem;
+  intervalLabel?: string;
+  intervalTime?: number | null;
 }
 
 export const MeasurementDisplay: React.FC<MeasurementDisplayProps> = ({
   speed,
   elapsedTime,
   status,
-  isRunning
+  isRunning,
+  unitSystem = 'metric',
+  intervalLabel,
+  intervalTime = null
 }) => {
   return (
     <Card className="p-6 text-center space-y-4 racing-glow">
       <div className="space-y-2">
         <div className={`text-6xl font-bold speed-gradient ${isRunning ? 'pulse-racing' : ''}`}>
-          {Math.round(speed)} km/h
+          {Math.round(toDisplaySpeed(speed, unitSystem))} {speedUnit(unitSystem)}
         </div>
         <div className="text-2xl text-accent font-mono">
           {elapsedTime.toFixed(2)} s
         </div>
+        {intervalLabel && intervalTime !== null && (
+          <div className="text-sm text-muted-foreground font-mono">
+            {intervalLabel}: {intervalTime.toFixed(2)} s
+          </div>
+        )}
       </div>
 
       <div className="flex items-center justify-center gap-2">
@@ -1,87 +1,127 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
-
-interface TimingResults {
-  '0-30': number | null;
-  '0-60': number | null;
-  '0-100': number | null;
-  '0-200': number | null;
-  '0-250': number | null;
-  '0-300': number | null;
-  quarterMile: number | null;
-  halfMile: number | null;
-}
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Milestone, TimingResults } from '../utils/Milestones';
+import { BrakingResult } from '../utils/BrakingAnalysis';
+import { UnitSystem, formatDistance, formatSpeed } from '../utils/Units';
+import { GRADE_CLASSES, UncertaintyResults, formatUncertainty } from '../utils/ResultUncertainty';
+import { RunValidation, VALIDITY_LABELS } from '../utils/RunValidation';
+import { TrapSpeeds } from '../utils/TrapSpeed';
 
 interface ResultsPanelProps {
+  milestones: Milestone[];
   times: TimingResults;
+  uncertainties?: UncertaintyResults;
+  traps?: TrapSpeeds;
+  validation?: RunValidation | null;
+  braking?: BrakingResult | null;
+  brakingLabel?: string;
+  rolloutLabel?: string; // timing convention of the standing-start results
+  unitSystem?: UnitSystem;
   hasResults: boolean;
   isRunning?: boolean;
 }
 
-export const ResultsPanel: React.FC<ResultsPanelProps> = ({ times, hasResults, isRunning = false }) => {
+const VALIDITY_STYLES = {
+  valid: { icon: CheckCircle2, className: 'text-green-600' },
+  warning: { icon: AlertTriangle, className: 'text-warning' },
+  invalid: { icon: XCircle, className: 'text-destructive' },
+};
+
+// Run verdict with the reasons behind it
+const ValidityNotice: React.FC<{ validation: RunValidation }> = ({ validation }) => {
+  const { icon: Icon, className } = VALIDITY_STYLES[validation.status];
+  return (
+    <div className="space-y-1">
+      <div className={`flex items-center justify-center gap-1 text-sm font-semibold ${className}`}>
+        <Icon className="w-4 h-4" />
+        {VALIDITY_LABELS[validation.status]} run
+      </div>
+      {validation.issues.map(issue => (
+        <div
+          key={issue.check}
+          className={`text-xs text-center ${issue.severity === 'invalid' ? 'text-destructive' : 'text-muted-foreground'}`}
+        >
+          {issue.message}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ResultsPanel: React.FC<ResultsPanelProps> = ({ milestones, times, uncertainties, traps, validation, braking, brakingLabel, rolloutLabel, unitSystem = 'metric', hasResults, isRunning = false }) => {
   // Always show the panel
 
+  // Braking tests replace the acceleration grid with stopping metrics
+  if (braking !== undefined) {
+    const metrics = [
+      { label: 'Entry Speed', value: braking ? formatSpeed(braking.entrySpeed, unitSystem, 1) : null },
+      { label: 'Stopping Time', value: braking ? `${braking.stoppingTime.toFixed(2)}s` : null },
+      { label: 'Mean Decel', value: braking ? `${braking.meanDecelG.toFixed(2)} g` : null },
+      { label: 'Peak Decel', value: braking ? `${braking.peakDecelG.toFixed(2)} g` : null },
+    ];
+
+    return (
+      <Card className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-center">
+          {isRunning ? "Live Braking" : `Braking ${brakingLabel ?? ''}`}
+        </h3>
+        {validation && !isRunning && <ValidityNotice validation={validation} />}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 text-center p-3 bg-muted rounded-lg">
+            <div className="text-sm text-muted-foreground">Stopping Distance</div>
+            <div className={`text-2xl font-bold ${braking ? 'text-primary' : 'text-muted-foreground'}`}>
+              {braking ? formatDistance(braking.stoppingDistance, unitSystem) : '--'}
+            </div>
+          </div>
+
+          {metrics.map(metric => (
+            <div key={metric.label} className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">{metric.label}</div>
+              <div className={`text-lg font-bold ${metric.value ? 'text-primary' : 'text-muted-foreground'}`}>
+                {metric.value ?? '--'}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  }
+
   return (
     <Card className="p-6 space-y-4">
       <h3 className="text-lg font-semibold text-center">
         {isRunning ? "Live Results" : "Results"}
       </h3>
+      {rolloutLabel && <p className="text-xs text-muted-foreground text-center -mt-3">{rolloutLabel}</p>}
+      {validation && !isRunning && <ValidityNotice validation={validation} />}
       <div className="grid grid-cols-2 gap-3">
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-30 km/h</div>
-          <div className={`text-lg font-bold ${times['0-30'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-30'] ? `${times['0-30'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-60 km/h</div>
-          <div className={`text-lg font-bold ${times['0-60'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-60'] ? `${times['0-60'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-100 km/h</div>
-          <div className={`text-lg font-bold ${times['0-100'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-100'] ? `${times['0-100'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-200 km/h</div>
-          <div className={`text-lg font-bold ${times['0-200'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-200'] ? `${times['0-200'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-250 km/h</div>
-          <div className={`text-lg font-bold ${times['0-250'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-250'] ? `${times['0-250'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">0-300 km/h</div>
-          <div className={`text-lg font-bold ${times['0-300'] ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times['0-300'] ? `${times['0-300'].toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">1/4 Mile</div>
-          <div className={`text-lg font-bold ${times.quarterMile ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times.quarterMile ? `${times.quarterMile.toFixed(2)}s` : '--'}
-          </div>
-        </div>
-        
-        <div className="text-center p-3 bg-muted rounded-lg">
-          <div className="text-sm text-muted-foreground">1/2 Mile</div>
-          <div className={`text-lg font-bold ${times.halfMile ? 'text-primary' : 'text-muted-foreground'}`}>
-            {times.halfMile ? `${times.halfMile.toFixed(2)}s` : '--'}
-          </div>
-        </div>
+        {milestones.map(milestone => {
+          const result = times[milestone.id];
+          const uncertainty = result ? uncertainties?.[milestone.id] : undefined;
+          const trap = result ? traps?.[milestone.id] : undefined;
+          return (
+            <div key={milestone.id} className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-sm text-muted-foreground">
+                {milestone.label}{milestone.kind === 'range' ? ' (rolling)' : ''}
+              </div>
+              <div className={`text-lg font-bold ${result ? 'text-primary' : 'text-muted-foreground'}`}>
+                {result ? `${result.time.toFixed(2)}s` : '--'}
+              </div>
+              {uncertainty && (
+                <div className="text-xs text-muted-foreground">
+                  {formatUncertainty(uncertainty)}{' '}
+                  <span className={`font-bold ${GRADE_CLASSES[uncertainty.grade]}`}>{uncertainty.grade}</span>
+                </div>
+              )}
+              {trap && (
+                <div className="text-xs text-muted-foreground">
+                  Trap {formatSpeed(trap.trap, unitSystem, 1)} · {formatSpeed(trap.instantaneous, unitSystem, 1)} at line
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
     </Card>
   );
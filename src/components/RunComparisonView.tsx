@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, GitCompare } from 'lucide-react';
+import { ComparisonChart, ComparisonSeries } from './ComparisonChart';
+import { useUnitSystem } from '../hooks/useSettings';
+import { StoredRun, getRun } from '../utils/RunStore';
+import { COMPARISON_COLORS, alignAtLaunch, buildTimeDelta, compareMilestones } from '../utils/RunComparison';
+import { formatRollout, haveSameRollout } from '../utils/Rollout';
+import { distanceUnit, speedUnit, toDisplayDistance, toDisplaySpeed } from '../utils/Units';
+
+type OverlayAxis = 'time' | 'distance';
+
+const runLabel = (index: number) => `Run ${index + 1}`;
+
+const formatDelta = (delta: number | null): string => {
+  if (delta === null) return '—';
+  if (Math.abs(delta) < 0.005) return '±0.00';
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(2)}`;
+};
+
+export const RunComparisonView: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const unitSystem = useUnitSystem();
+  const [runs, setRuns] = useState<StoredRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [referenceIndex, setReferenceIndex] = useState(0);
+  const [axis, setAxis] = useState<OverlayAxis>('time');
+
+  const idsParam = searchParams.get('ids') ?? '';
+
+  // Load the selected runs, skipping any that have since been deleted
+  useEffect(() => {
+    const ids = idsParam.split(',').filter(Boolean);
+
+    Promise.all(ids.map(id => getRun(id)))
+      .then(loaded => {
+        setRuns(loaded.filter((run): run is StoredRun => run !== null));
+        setReferenceIndex(0);
+      })
+      .catch(error => console.error('Failed to load runs for comparison:', error))
+      .finally(() => setIsLoading(false));
+  }, [idsParam]);
+
+  const aligned = useMemo(() => runs.map(alignAtLaunch), [runs]);
+
+  const speedSeries: ComparisonSeries[] = aligned.map((alignedRun, index) => ({
+    label: runLabel(index),
+    color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+    points: alignedRun.points.map(p => ({
+      x: axis === 'time' ? p.time : toDisplayDistance(p.distance, unitSystem),
+      y: toDisplaySpeed(p.speed, unitSystem),
+    })),
+  }));
+
+  const deltaSeries: ComparisonSeries[] = aligned
+    .map((alignedRun, index) => ({ alignedRun, index }))
+    .filter(({ index }) => index !== referenceIndex)
+    .map(({ alignedRun, index }) => ({
+      label: runLabel(index),
+      color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+      points: buildTimeDelta(aligned[referenceIndex], alignedRun).map(p => ({
+        x: toDisplayDistance(p.distance, unitSystem),
+        y: p.delta,
+      })),
+    }));
+
+  const milestoneRows = useMemo(() => compareMilestones(runs, referenceIndex), [runs, referenceIndex]);
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative flex items-center justify-center gap-2">
+          <div className="absolute left-0">
+            <Button variant="ghost" size="icon" asChild aria-label="Back to history">
+              <Link to="/history">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+          </div>
+          <GitCompare className="w-6 h-6 text-primary" />
+          <h1 className="text-2xl font-bold">Compare Runs</h1>
+        </div>
+
+        {isLoading && (
+          <p className="text-center text-muted-foreground">Loading runs...</p>
+        )}
+
+        {!isLoading && runs.length < 2 && (
+          <Card className="p-6 text-center text-muted-foreground">
+            Select at least two runs in the history to compare them.
+          </Card>
+        )}
+
+        {runs.length >= 2 && (
+          <>
+            {/* Runs and reference */}
+            <Card className="p-4 space-y-3">
+              {runs.map((run, index) => (
+                <div key={run.id} className="flex items-center gap-2 text-sm">
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: COMPARISON_COLORS[index % COMPARISON_COLORS.length] }}
+                  />
+                  <span className="font-semibold">{runLabel(index)}</span>
+                  <span className="text-muted-foreground">{new Date(run.createdAt).toLocaleString()}</span>
+                  <span className="text-muted-foreground">· {formatRollout(run.rollout, unitSystem)}</span>
+                </div>
+              ))}
+              {!haveSameRollout(runs) && (
+                <div className="flex items-center gap-2 text-sm text-warning">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  These runs were timed with different rollouts, so their times are not directly comparable.
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-2 pt-2">
+                <span className="text-sm font-semibold">Reference</span>
+                <Select value={String(referenceIndex)} onValueChange={(value) => setReferenceIndex(Number(value))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map((run, index) => (
+                      <SelectItem key={run.id} value={String(index)}>{runLabel(index)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </Card>
+
+            {/* Speed overlay */}
+            <Card className="p-4 space-y-4">
+              <Tabs value={axis} onValueChange={(value) => setAxis(value as OverlayAxis)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="time">Speed vs Time</TabsTrigger>
+                  <TabsTrigger value="distance">Speed vs Distance</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <ComparisonChart
+                title={axis === 'time' ? 'Speed vs Time' : 'Speed vs Distance'}
+                series={speedSeries}
+                xLabel={axis === 'time' ? 'Time since launch (s)' : `Distance (${distanceUnit(unitSystem)})`}
+                yLabel={`Speed (${speedUnit(unitSystem)})`}
+                yUnit={speedUnit(unitSystem)}
+              />
+            </Card>
+
+            {/* Time delta against the reference */}
+            <Card className="p-4">
+              <ComparisonChart
+                title={`Time Delta vs ${runLabel(referenceIndex)}`}
+                series={deltaSeries}
+                xLabel={`Distance (${distanceUnit(unitSystem)})`}
+                yLabel="Delta (s)"
+                yUnit="s"
+                yDigits={2}
+                beginAtZero={false}
+              />
+              <p className="text-xs text-muted-foreground mt-2">
+                Above zero the run is behind the reference, below zero it is ahead.
+              </p>
+            </Card>
+
+            {/* Per-milestone deltas */}
+            <Card className="p-4">
+              <h3 className="text-lg font-bold mb-2">Milestones</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Target</TableHead>
+                    {runs.map((run, index) => (
+                      <TableHead key={run.id} className="text-right">{runLabel(index)}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {milestoneRows.map(row => (
+                    <TableRow key={row.milestone.id}>
+                      <TableCell className="font-semibold">{row.milestone.label}</TableCell>
+                      {row.times.map((time, index) => (
+                        <TableCell key={runs[index].id} className="text-right">
+                          <div>{time !== null ? `${time.toFixed(2)}s` : '—'}</div>
+                          {index !== referenceIndex && (
+                            <div
+                              className={
+                                row.deltas[index] === null
+                                  ? 'text-xs text-muted-foreground'
+                                  : row.deltas[index] > 0
+                                    ? 'text-xs text-destructive'
+                                    : 'text-xs text-green-600'
+                              }
+                            >
+                              {formatDelta(row.deltas[index])}
+                            </div>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowLeft, ArrowLeftRight, FolderOpen, GitCompare, PlayCircle, Trash2, History, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useMilestones, useUnitSystem } from '../hooks/useSettings';
+import { StoredRun, deleteRun, listRuns, saveRun } from '../utils/RunStore';
+import { IMPORT_FILE_TYPES, createImportedRun, parseLoggerFile } from '../utils/RunImport';
+import { formatBrakingTest } from '../utils/BrakingAnalysis';
+import { UnitSystem, formatDistance } from '../utils/Units';
+import { findOppositeRun } from '../utils/TwoWayRuns';
+import { formatRollout } from '../utils/Rollout';
+
+// Headline result for the list: stopping distance, or the furthest speed milestone reached
+const summarizeRun = (run: StoredRun, unitSystem: UnitSystem): string => {
+  if (run.mode === 'braking') {
+    return run.braking
+      ? `${formatBrakingTest(run.brakingTest ?? run.braking.entrySpeed, unitSystem)}: ${formatDistance(run.braking.stoppingDistance, unitSystem)}`
+      : 'No result';
+  }
+
+  const reached = run.milestones.filter(m => m.kind === 'speed' && run.times[m.id]);
+  const best = reached[reached.length - 1];
+  return best ? `${best.label}: ${run.times[best.id].time.toFixed(2)}s` : 'No milestones reached';
+};
+
+export const RunHistory: React.FC = () => {
+  const navigate = useNavigate();
+  const unitSystem = useUnitSystem();
+  const milestones = useMilestones();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [runs, setRuns] = useState<StoredRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await listRuns());
+    } catch (error) {
+      console.error('Failed to load run history:', error);
+      toast({
+        title: "History Unavailable",
+        description: "Could not read stored runs",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleDelete = useCallback(async (run: StoredRun) => {
+    await deleteRun(run.id);
+
+    // Its partner is no longer half of a pair
+    const partner = runs.find(r => r.id === run.pairedWith && r.pairedWith === run.id);
+    const unpaired = partner ? { ...partner, pairedWith: undefined } : null;
+    if (unpaired) await saveRun(unpaired);
+
+    setRuns(prev => prev.filter(r => r.id !== run.id).map(r => (unpaired && r.id === unpaired.id ? unpaired : r)));
+    setSelectedIds(prev => prev.filter(id => id !== run.id));
+    toast({
+      title: "Run Deleted",
+      description: new Date(run.createdAt).toLocaleString(),
+    });
+  }, [runs]);
+
+  // Import a logger file as a new run, timed against the current milestone settings
+  const handleImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const fixes = parseLoggerFile(file.name, await file.text());
+      const run = createImportedRun(fixes, file.name, milestones, unitSystem);
+      await saveRun(run);
+      setRuns(prev => [run, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+      toast({
+        title: "Run Imported",
+        description: `${file.name}: ${fixes.length} samples`,
+      });
+    } catch (error) {
+      console.error('Failed to import run:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  }, [milestones, unitSystem]);
+
+  // Linked partners, or opposite-direction runs that could be paired with each run
+  const partnerIds = useMemo(() => {
+    const partners: Record<string, string> = {};
+    runs.forEach(run => {
+      const partner = run.pairedWith && runs.some(other => other.id === run.pairedWith)
+        ? run.pairedWith
+        : findOppositeRun(run, runs)?.id;
+      if (partner) partners[run.id] = partner;
+    });
+    return partners;
+  }, [runs]);
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(prev => selected ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative flex items-center justify-center gap-2">
+          <div className="absolute left-0">
+            <Button variant="ghost" size="icon" asChild aria-label="Back">
+              <Link to="/">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+          </div>
+          <History className="w-6 h-6 text-primary" />
+          <h1 className="text-2xl font-bold">Run History</h1>
+          <div className="absolute right-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => fileInputRef.current?.click()}
+              aria-label="Import logger file"
+            >
+              <Upload className="w-5 h-5" />
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_FILE_TYPES}
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+
+        {isLoading && (
+          <p className="text-center text-muted-foreground">Loading runs...</p>
+        )}
+
+        {!isLoading && runs.length === 0 && (
+          <Card className="p-6 text-center text-muted-foreground">
+            No runs recorded yet. Completed runs are saved here automatically.
+          </Card>
+        )}
+
+        {runs.some(run => run.mode === 'acceleration') && (
+          <Button
+            className="w-full"
+            disabled={selectedIds.length < 2}
+            onClick={() => navigate(`/compare?ids=${selectedIds.join(',')}`)}
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare Selected ({selectedIds.length})
+          </Button>
+        )}
+
+        {runs.map(run => (
+          <Card key={run.id} className="p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {run.mode === 'acceleration' && (
+                  <Checkbox
+                    checked={selectedIds.includes(run.id)}
+                    onCheckedChange={(checked) => toggleSelected(run.id, checked === true)}
+                    aria-label="Select run for comparison"
+                  />
+                )}
+                <div className="text-sm font-semibold">{new Date(run.createdAt).toLocaleString()}</div>
+              </div>
+              <div className="flex gap-1">
+                <Badge variant="secondary">{run.mode === 'braking' ? 'Braking' : run.drag ? 'Drag' : 'Acceleration'}</Badge>
+                {run.simulated && <Badge variant="outline">Simulated</Badge>}
+                {run.importedFrom && <Badge variant="outline">Imported</Badge>}
+                {run.pairedWith && <Badge variant="outline">Two-way</Badge>}
+                {run.drag?.redLight && <Badge variant="destructive">Red light</Badge>}
+                {!!run.rollout && <Badge variant="outline">{formatRollout(run.rollout, unitSystem)}</Badge>}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-primary font-bold">{summarizeRun(run, unitSystem)}</span>
+              <span className="text-muted-foreground">{formatDistance(run.distance, unitSystem, 0)}</span>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => navigate(`/?run=${run.id}`)}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Open
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => navigate(`/runs/${run.id}`)}
+              >
+                <PlayCircle className="w-4 h-4 mr-2" />
+                Replay
+              </Button>
+              {partnerIds[run.id] && (
+                <Button
+                  variant={run.pairedWith ? "secondary" : "outline"}
+                  size="icon"
+                  onClick={() => navigate(`/two-way?ids=${run.id},${partnerIds[run.id]}`)}
+                  aria-label={run.pairedWith ? "Two-way average" : "Pair with opposite run"}
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => handleDelete(run)}
+                aria-label="Delete run"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Play, Pause, SkipBack } from 'lucide-react';
+import SpeedChart from './SpeedChart';
+import { MeasurementDisplay } from './MeasurementDisplay';
+import { ResultsPanel } from './ResultsPanel';
+import { useUnitSystem } from '../hooks/useSettings';
+import { StoredRun, getRun } from '../utils/RunStore';
+import { REPLAY_RATES, getReplayDuration, getReplayFrame } from '../utils/Replay';
+import { formatBrakingTest } from '../utils/BrakingAnalysis';
+import { formatDistance } from '../utils/Units';
+
+export const RunReplay: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const unitSystem = useUnitSystem();
+  const [run, setRun] = useState<StoredRun | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+
+  // Load the stored run
+  useEffect(() => {
+    if (!id) return;
+
+    getRun(id)
+      .then(storedRun => {
+        if (!storedRun) {
+          setLoadError('Run not found');
+          return;
+        }
+        setRun(storedRun);
+        setPlayhead(0);
+      })
+      .catch(error => {
+        console.error('Failed to load run:', error);
+        setLoadError('Could not read the stored run');
+      });
+  }, [id]);
+
+  const duration = run ? getReplayDuration(run) : 0;
+
+  // Advance the playhead in real time scaled by the playback rate
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId: number;
+    let lastFrame = performance.now();
+
+    const tick = (now: number) => {
+      const dt = (now - lastFrame) / 1000;
+      lastFrame = now;
+      setPlayhead(prev => Math.min(duration, prev + dt * rate));
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, rate, duration]);
+
+  // Stop at the end of the recording
+  useEffect(() => {
+    if (isPlaying && playhead >= duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, playhead, duration]);
+
+  const frame = useMemo(() => (run ? getReplayFrame(run, playhead) : null), [run, playhead]);
+
+  const togglePlayback = () => {
+    if (!isPlaying && playhead >= duration) {
+      setPlayhead(0);
+    }
+    setIsPlaying(prev => !prev);
+  };
+
+  const status = (() => {
+    const accuracyText = frame?.accuracy != null ? `±${formatDistance(frame.accuracy, unitSystem, 0)}` : '±—';
+    return `Replay ${rate}× • ${playhead.toFixed(2)} / ${duration.toFixed(2)} s • GPS ${accuracyText}`;
+  })();
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative flex items-center justify-center gap-2">
+          <div className="absolute left-0">
+            <Button variant="ghost" size="icon" asChild aria-label="Back to history">
+              <Link to="/history">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+          </div>
+          <div className="text-center">
+            <h1 className="text-2xl font-bold">Run Replay</h1>
+            {run && (
+              <p className="text-sm text-muted-foreground">{new Date(run.createdAt).toLocaleString()}</p>
+            )}
+          </div>
+        </div>
+
+        {loadError && (
+          <Card className="p-6 text-center text-muted-foreground">{loadError}</Card>
+        )}
+
+        {run && frame && (
+          <>
+            <MeasurementDisplay
+              speed={frame.speed}
+              elapsedTime={playhead}
+              status={status}
+              isRunning={isPlaying}
+              unitSystem={unitSystem}
+            />
+
+            {/* Playback Controls */}
+            <Card className="p-4 space-y-4">
+              <Slider
+                value={[playhead]}
+                min={0}
+                max={Math.max(duration, 0.01)}
+                step={0.01}
+                onValueChange={([value]) => setPlayhead(value)}
+                aria-label="Replay position"
+              />
+              <div className="flex items-center gap-3">
+                <Button variant="outline" size="icon" onClick={() => setPlayhead(0)} aria-label="Restart">
+                  <SkipBack className="w-4 h-4" />
+                </Button>
+                <Button onClick={togglePlayback} className="flex-1">
+                  {isPlaying ? (
+                    <>
+                      <Pause className="w-4 h-4 mr-2" />
+                      Pause
+                    </>
+                  ) : (
+                    <>
+                      <Play className="w-4 h-4 mr-2" />
+                      Play
+                    </>
+                  )}
+                </Button>
+                <Select value={String(rate)} onValueChange={(value) => setRate(Number(value))}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPLAY_RATES.map(replayRate => (
+                      <SelectItem key={replayRate} value={String(replayRate)}>
+                        {replayRate}×
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </Card>
+
+            <ResultsPanel
+              milestones={run.milestones}
+              times={frame.times}
+              braking={run.mode === 'braking' ? (frame.finished ? run.braking : null) : undefined}
+              brakingLabel={run.brakingTest !== null ? formatBrakingTest(run.brakingTest, unitSystem) : undefined}
+              unitSystem={unitSystem}
+              hasResults={frame.finished}
+              isRunning={!frame.finished}
+            />
+
+            {frame.dataPoints.length > 0 && (
+              <Card className="p-4">
+                <SpeedChart
+                  dataPoints={frame.dataPoints}
+                  milestones={run.milestones}
+                  times={frame.times}
+                  unitSystem={unitSystem}
+                />
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
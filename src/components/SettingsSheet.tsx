@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Settings, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useSettings } from '../hooks/useSettings';
+import { Milestone, MilestoneKind, createCustomMilestone, getDefaultMilestones } from '../utils/Milestones';
+import { UnitSystem, distanceUnit, fromDisplayDistance, speedUnit, toDisplayDistance } from '../utils/Units';
+import { NMEA_BAUD_RATES } from '../utils/NmeaReceiver';
+import { GNSS_PRESETS, VEHICLE_PRESETS } from '../utils/VehicleSimulator';
+import { TREE_PRESETS, TreeType } from '../utils/DragTree';
+import { ROLLOUT_LABELS, RolloutOption } from '../utils/Rollout';
+
+interface SettingsSheetProps {
+  disabled?: boolean;
+}
+
+const SECTIONS: { kind: MilestoneKind; title: string }[] = [
+  { kind: 'speed', title: 'Speed targets' },
+  { kind: 'distance', title: 'Distance targets' },
+  { kind: 'range', title: 'Rolling speed ranges' },
+];
+
+export const SettingsSheet: React.FC<SettingsSheetProps> = ({ disabled = false }) => {
+  const { settings, updateSettings } = useSettings();
+  const [newKind, setNewKind] = useState<MilestoneKind>('speed');
+  const [target, setTarget] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const unitSystem = settings.unitSystem;
+  const allMilestones = [...getDefaultMilestones(unitSystem), ...settings.customMilestones];
+
+  const toggleMilestone = (id: string, enabled: boolean) => {
+    updateSettings({
+      disabledMilestones: enabled
+        ? settings.disabledMilestones.filter(disabledId => disabledId !== id)
+        : [...settings.disabledMilestones, id],
+    });
+  };
+
+  const changeCustomRollout = (value: string) => {
+    const rollout = Number(value);
+    if (value !== '' && rollout >= 0) updateSettings({ customRollout: fromDisplayDistance(rollout, unitSystem) });
+  };
+
+  const removeMilestone = (milestone: Milestone) => {
+    updateSettings({
+      customMilestones: settings.customMilestones.filter(m => m.id !== milestone.id),
+      disabledMilestones: settings.disabledMilestones.filter(id => id !== milestone.id),
+    });
+  };
+
+  const addMilestone = () => {
+    const values = { target: Number(target), from: Number(from), to: Number(to) };
+    const valid = newKind === 'range'
+      ? from !== '' && to !== '' && values.from >= 0 && values.to > values.from
+      : target !== '' && values.target > 0;
+
+    if (!valid) {
+      toast({
+        title: "Invalid Target",
+        description: newKind === 'range'
+          ? "The upper speed must be greater than the lower speed"
+          : "Enter a target greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const milestone = createCustomMilestone(newKind, values, settings.customMilestones.length, unitSystem);
+    if (allMilestones.some(m => m.id === milestone.id)) {
+      toast({
+        title: "Target Exists",
+        description: `${milestone.label} is already measured`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateSettings({ customMilestones: [...settings.customMilestones, milestone] });
+    setTarget('');
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={disabled} aria-label="Settings">
+          <Settings className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Settings</SheetTitle>
+          <SheetDescription>Choose which targets are timed during a run.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Units</h4>
+            <Select
+              value={unitSystem}
+              onValueChange={(value) => updateSettings({ unitSystem: value as UnitSystem })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="metric">Metric (km/h, metres)</SelectItem>
+                <SelectItem value="imperial">Imperial (mph, feet)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Rollout</h4>
+            <Select
+              value={settings.rollout}
+              onValueChange={(value) => updateSettings({ rollout: value as RolloutOption })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ROLLOUT_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {settings.rollout === 'custom' && (
+              <div className="flex items-center gap-2">
+                <Input
+                  key={unitSystem}
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={0.01}
+                  defaultValue={Number(toDisplayDistance(settings.customRollout, unitSystem).toFixed(2))}
+                  onChange={(e) => changeCustomRollout(e.target.value)}
+                  aria-label="Custom rollout distance"
+                />
+                <span className="text-sm text-muted-foreground">{distanceUnit(unitSystem)}</span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Standing starts are timed from this far after the first movement. Magazine and
+              drag-strip figures use a 1 ft rollout.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">External receiver baud rate</h4>
+            <Select
+              value={String(settings.receiverBaudRate)}
+              onValueChange={(value) => updateSettings({ receiverBaudRate: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NMEA_BAUD_RATES.map(baudRate => (
+                  <SelectItem key={baudRate} value={String(baudRate)}>{baudRate} baud</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Vehicle</h4>
+            <Input
+              value={settings.vehicleName}
+              placeholder="e.g. 2019 Golf R"
+              onChange={(e) => updateSettings({ vehicleName: e.target.value })}
+              aria-label="Vehicle name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Drag tree</h4>
+            <Select
+              value={settings.dragTree}
+              onValueChange={(value) => updateSettings({ dragTree: value as TreeType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TREE_PRESETS).map(([key, tree]) => (
+                  <SelectItem key={key} value={key}>{tree.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Simulator</h4>
+            <Select
+              value={settings.simulatorVehicle}
+              onValueChange={(value) => updateSettings({ simulatorVehicle: value })}
+            >
+              <SelectTrigger aria-label="Simulated vehicle">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(VEHICLE_PRESETS).map(([key, vehicle]) => (
+                  <SelectItem key={key} value={key}>{vehicle.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={settings.simulatorGnss}
+              onValueChange={(value) => updateSettings({ simulatorGnss: value })}
+            >
+              <SelectTrigger aria-label="Simulated GNSS receiver">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GNSS_PRESETS).map(([key, gnss]) => (
+                  <SelectItem key={key} value={key}>{gnss.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {SECTIONS.map(section => (
+            <div key={section.kind} className="space-y-2">
+              <h4 className="text-sm font-semibold">{section.title}</h4>
+              {allMilestones.filter(m => m.kind === section.kind).map(milestone => (
+                <div key={milestone.id} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`milestone-${milestone.id}`} className="flex-1">{milestone.label}</Label>
+                  {milestone.custom && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeMilestone(milestone)}
+                      aria-label={`Remove ${milestone.label}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Switch
+                    id={`milestone-${milestone.id}`}
+                    checked={!settings.disabledMilestones.includes(milestone.id)}
+                    onCheckedChange={(checked) => toggleMilestone(milestone.id, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="space-y-3 border-t pt-4">
+            <h4 className="text-sm font-semibold">Add target</h4>
+            <Select value={newKind} onValueChange={(value) => setNewKind(value as MilestoneKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="speed">Speed (0 to {speedUnit(unitSystem)})</SelectItem>
+                <SelectItem value="distance">Distance (0 to {distanceUnit(unitSystem)})</SelectItem>
+                <SelectItem value="range">Rolling range ({speedUnit(unitSystem)} to {speedUnit(unitSystem)})</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {newKind === 'range' ? (
+              <div className="flex gap-2">
+                <Input type="number" inputMode="decimal" placeholder={`From ${speedUnit(unitSystem)}`} value={from} onChange={(e) => setFrom(e.target.value)} />
+                <Input type="number" inputMode="decimal" placeholder={`To ${speedUnit(unitSystem)}`} value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            ) : (
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder={`Target ${newKind === 'speed' ? speedUnit(unitSystem) : distanceUnit(unitSystem)}`}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+            )}
+
+            <Button onClick={addMilestone} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Target
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
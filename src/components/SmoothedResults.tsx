@@ -0,0 +1,114 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StoredRun } from '../utils/RunStore';
+import { SmoothedRun } from '../utils/RunSmoothing';
+import { computeTrapSpeeds } from '../utils/TrapSpeed';
+import { UnitSystem, formatDistance, formatSpeed } from '../utils/Units';
+import { GRADE_CLASSES, ResultUncertainty, UncertaintyResults, formatUncertainty } from '../utils/ResultUncertainty';
+
+interface SmoothedResultsProps {
+  run: StoredRun;
+  smoothed: SmoothedRun;
+  uncertainties?: UncertaintyResults; // for the smoothed milestone times
+  unitSystem?: UnitSystem;
+}
+
+interface ComparisonRow {
+  label: string;
+  live: string | null;
+  smoothed: string | null;
+  uncertainty?: ResultUncertainty;
+}
+
+const formatTime = (time: number | null | undefined): string | null =>
+  time !== null && time !== undefined ? `${time.toFixed(2)}s` : null;
+
+export const SmoothedResults: React.FC<SmoothedResultsProps> = ({ run, smoothed, uncertainties, unitSystem = 'metric' }) => {
+  const rows: ComparisonRow[] = [];
+
+  if (run.mode === 'braking') {
+    const live = run.braking;
+    const post = smoothed.braking;
+    rows.push(
+      { label: 'Stopping Distance', live: live && formatDistance(live.stoppingDistance, unitSystem), smoothed: post && formatDistance(post.stoppingDistance, unitSystem) },
+      { label: 'Entry Speed', live: live && formatSpeed(live.entrySpeed, unitSystem, 1), smoothed: post && formatSpeed(post.entrySpeed, unitSystem, 1) },
+      { label: 'Stopping Time', live: formatTime(live?.stoppingTime), smoothed: formatTime(post?.stoppingTime) },
+      { label: 'Mean Decel', live: live && `${live.meanDecelG.toFixed(2)} g`, smoothed: post && `${post.meanDecelG.toFixed(2)} g` },
+    );
+  } else {
+    const liveTraps = computeTrapSpeeds(run.milestones, run.times, run.dataPoints);
+    run.milestones.forEach(milestone => {
+      rows.push({
+        label: milestone.label,
+        live: formatTime(run.times[milestone.id]?.time),
+        smoothed: formatTime(smoothed.times[milestone.id]?.time),
+        uncertainty: smoothed.times[milestone.id] ? uncertainties?.[milestone.id] : undefined,
+      });
+
+      // Average speed through the trap and speed at the line of each distance target
+      if (milestone.kind === 'distance') {
+        const live = liveTraps[milestone.id];
+        const post = smoothed.traps[milestone.id];
+        rows.push(
+          {
+            label: `${milestone.label} trap`,
+            live: live ? formatSpeed(live.trap, unitSystem, 1) : null,
+            smoothed: post ? formatSpeed(post.trap, unitSystem, 1) : null,
+          },
+          {
+            label: `${milestone.label} speed`,
+            live: live ? formatSpeed(live.instantaneous, unitSystem, 1) : null,
+            smoothed: post ? formatSpeed(post.instantaneous, unitSystem, 1) : null,
+          },
+        );
+      }
+    });
+    rows.push({
+      label: 'Distance',
+      live: formatDistance(run.distance, unitSystem),
+      smoothed: formatDistance(smoothed.distance, unitSystem),
+    });
+  }
+
+  return (
+    <Card className="p-4 space-y-2">
+      <h3 className="text-lg font-semibold">Live vs Smoothed</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            <TableHead className="text-right">Live</TableHead>
+            <TableHead className="text-right">
+              Smoothed <Badge variant="secondary" className="ml-1">Official</Badge>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.label}>
+              <TableCell className="font-semibold">{row.label}</TableCell>
+              <TableCell className="text-right text-muted-foreground">{row.live ?? '—'}</TableCell>
+              <TableCell className="text-right">
+                <div className="font-bold text-primary">{row.smoothed ?? '—'}</div>
+                {row.uncertainty && (
+                  <div className="text-xs text-muted-foreground">
+                    {formatUncertainty(row.uncertainty)}{' '}
+                    <span className={`font-bold ${GRADE_CLASSES[row.uncertainty.grade]}`}>{row.uncertainty.grade}</span>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Live values are estimated as the run happens, from measurements up to that moment.
+        Smoothed values re-run the filter over the whole recording, forwards and then
+        backwards, so each point also uses what was measured after it. Quote the smoothed values.
+        Times carry a 95% confidence interval and a grade from A (within ±0.05s) to D (worse than ±0.2s).
+      </p>
+    </Card>
+  );
+};
@@ -13,6 +13,11 @@ import {
 import { Line } from 'react-chartjs-2';
 import annotationPlugin from 'chartjs-plugin-annotation';
 import { CubicSpline } from '../utils/CubicSpline';
+import { Milestone, TimingResults } from '../utils/Milestones';
+import { UnitSystem, formatSpeed, speedUnit, toDisplaySpeed } from '../utils/Units';
+import { UncertaintyResults } from '../utils/ResultUncertainty';
+import { speedAt } from '../utils/Milestones';
+import { TrapSpeeds } from '../utils/TrapSpeed';
 
 ChartJS.register(
   CategoryScale,
@@ -30,27 +35,20 @@ interface DataPoint {
   speed: number;
 }
 
-interface TimingResults {
-  '0-30': number | null;
-  '0-60': number | null;
-  '0-100': number | null;
-  '0-200': number | null;
-  '0-250': number | null;
-  '0-300': number | null;
-  quarterMile: number | null;
-  halfMile: number | null;
-}
-
 interface SpeedChartProps {
   dataPoints: DataPoint[];
+  milestones: Milestone[];
   times: TimingResults;
+  uncertainties?: UncertaintyResults;
+  traps?: TrapSpeeds;
+  unitSystem?: UnitSystem;
 }
 
 export interface SpeedChartRef {
   exportChart: () => void;
 }
 
-const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, times }, ref) => {
+const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, milestones, times, uncertainties, traps, unitSystem = 'metric' }, ref) => {
   const chartRef = useRef<ChartJS<'line'>>(null);
 
   useImperativeHandle(ref, () => ({
@@ -70,7 +68,7 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
     
     try {
       const timesArray = dataPoints.map(p => p.time);
-      const speedsArray = dataPoints.map(p => p.speed);
+      const speedsArray = dataPoints.map(p => toDisplaySpeed(p.speed, unitSystem));
       const spline = new CubicSpline(timesArray, speedsArray);
       
       const interpolatedTimes: number[] = [];
@@ -96,7 +94,7 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
     datasets: [
       {
         label: 'Actual Speed',
-        data: dataPoints.map(p => p.speed),
+        data: dataPoints.map(p => toDisplaySpeed(p.speed, unitSystem)),
         borderColor: 'hsl(0 85% 60%)',
         backgroundColor: 'hsla(0 85% 60% / 0.1)',
         pointBackgroundColor: 'hsl(0 85% 60%)',
@@ -126,120 +124,87 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
   const annotations: any = {};
   
   // Add vertical lines for timing milestones with clear labels at top
-  if (times['0-30']) {
-    annotations['line30'] = {
-      type: 'line',
-      xMin: times['0-30'],
-      xMax: times['0-30'],
-      borderColor: 'hsl(280 100% 70%)',
-      borderWidth: 3,
-      borderDash: [5, 5],
-      label: {
-        content: '0-30 km/h',
-        enabled: true,
-        position: 'end',
-        yAdjust: -10,
-        backgroundColor: 'hsl(280 100% 70%)',
-        color: 'hsl(0 0% 0%)',
-        font: {
-          size: 12,
-          weight: 'bold',
-        },
-        padding: 6,
-        cornerRadius: 4,
-      },
-    };
-  }
+  milestones.forEach(milestone => {
+    const result = times[milestone.id];
+    if (!result) return;
 
-  if (times['0-60']) {
-    annotations['line60'] = {
-      type: 'line',
-      xMin: times['0-60'],
-      xMax: times['0-60'],
-      borderColor: 'hsl(320 100% 65%)',
-      borderWidth: 3,
-      borderDash: [5, 5],
-      label: {
-        content: '0-60 km/h',
-        enabled: true,
-        position: 'end',
-        yAdjust: -10,
-        backgroundColor: 'hsl(320 100% 65%)',
-        color: 'hsl(0 0% 0%)',
-        font: {
-          size: 12,
-          weight: 'bold',
-        },
-        padding: 6,
-        cornerRadius: 4,
-      },
-    };
-  }
+    // Error bar across the confidence interval of the time, at the speed the target was reached
+    const uncertainty = uncertainties?.[milestone.id];
+    const endSpeed = milestone.kind === 'speed' ? milestone.speed
+      : milestone.kind === 'range' ? milestone.to
+      : speedAt(dataPoints, result.end);
+    if (uncertainty && endSpeed !== null) {
+      const y = toDisplaySpeed(endSpeed, unitSystem);
+      const xMin = result.end - uncertainty.interval;
+      const xMax = result.end + uncertainty.interval;
+      const bar = { type: 'line', borderColor: milestone.color, borderWidth: 2 };
+      annotations[`error-${milestone.id}`] = { ...bar, xMin, xMax, yMin: y, yMax: y };
+      annotations[`error-${milestone.id}-min`] = { ...bar, xMin, xMax: xMin, yMin: y - 3, yMax: y + 3 };
+      annotations[`error-${milestone.id}-max`] = { ...bar, xMin: xMax, xMax, yMin: y - 3, yMax: y + 3 };
+    }
 
-  if (times['0-100']) {
-    annotations['line100'] = {
-      type: 'line',
-      xMin: times['0-100'],
-      xMax: times['0-100'],
-      borderColor: 'hsl(45 100% 60%)',
-      borderWidth: 3,
-      borderDash: [5, 5],
-      label: {
-        content: '0-100 km/h',
-        enabled: true,
-        position: 'end',
-        yAdjust: -10,
-        backgroundColor: 'hsl(45 100% 60%)',
-        color: 'hsl(0 0% 0%)',
-        font: {
-          size: 12,
-          weight: 'bold',
+    if (milestone.kind === 'range') {
+      // Shade rolling ranges between their lower and upper speed crossings
+      annotations[`range-${milestone.id}`] = {
+        type: 'box',
+        xMin: result.start,
+        xMax: result.end,
+        yMin: toDisplaySpeed(milestone.from, unitSystem),
+        yMax: toDisplaySpeed(milestone.to, unitSystem),
+        backgroundColor: milestone.color.replace('hsl(', 'hsla(').replace(')', ' / 0.15)'),
+        borderColor: milestone.color,
+        borderWidth: 2,
+        label: {
+          content: `${milestone.label}: ${result.time.toFixed(2)}s`,
+          display: true,
+          position: 'center',
+          color: 'hsl(0 0% 10%)',
+          font: {
+            size: 12,
+            weight: 'bold',
+          },
         },
-        padding: 6,
-        cornerRadius: 4,
-      },
-    };
-  }
+      };
+      return;
+    }
 
-  if (times['0-200']) {
-    annotations['line200'] = {
-      type: 'line',
-      xMin: times['0-200'],
-      xMax: times['0-200'],
-      borderColor: 'hsl(120 60% 50%)',
-      borderWidth: 3,
-      borderDash: [5, 5],
-      label: {
-        content: '0-200 km/h',
-        enabled: true,
-        position: 'end',
-        yAdjust: -10,
-        backgroundColor: 'hsl(120 60% 50%)',
-        color: 'hsl(0 0% 100%)',
-        font: {
-          size: 12,
-          weight: 'bold',
+    // Shade the trap before each distance target up to its trap speed
+    const trap = traps?.[milestone.id];
+    if (trap) {
+      annotations[`trap-${milestone.id}`] = {
+        type: 'box',
+        xMin: trap.start,
+        xMax: result.end,
+        yMin: 0,
+        yMax: toDisplaySpeed(trap.trap, unitSystem),
+        backgroundColor: milestone.color.replace('hsl(', 'hsla(').replace(')', ' / 0.15)'),
+        borderWidth: 0,
+        label: {
+          content: `Trap ${formatSpeed(trap.trap, unitSystem, 1)}`,
+          display: true,
+          position: { x: 'end', y: 'start' },
+          color: 'hsl(0 0% 10%)',
+          font: {
+            size: 11,
+            weight: 'bold',
+          },
         },
-        padding: 6,
-        cornerRadius: 4,
-      },
-    };
-  }
+      };
+    }
 
-  if (times['0-250']) {
-    annotations['line250'] = {
+    annotations[`line-${milestone.id}`] = {
       type: 'line',
-      xMin: times['0-250'],
-      xMax: times['0-250'],
-      borderColor: 'hsl(180 60% 50%)',
+      xMin: result.end,
+      xMax: result.end,
+      borderColor: milestone.color,
       borderWidth: 3,
       borderDash: [5, 5],
       label: {
-        content: '0-250 km/h',
+        content: milestone.label,
         enabled: true,
         position: 'end',
         yAdjust: -10,
-        backgroundColor: 'hsl(180 60% 50%)',
+        backgroundColor: milestone.color,
         color: 'hsl(0 0% 0%)',
         font: {
           size: 12,
@@ -249,78 +214,20 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
         cornerRadius: 4,
       },
     };
-  }
+  });
 
-  if (times['0-300']) {
-    annotations['line300'] = {
+  // Add horizontal reference grid lines
+  const referenceSpeeds = unitSystem === 'imperial' ? [25, 50, 75, 100, 125, 150] : [50, 100, 150, 200, 250];
+  referenceSpeeds.forEach(referenceSpeed => {
+    annotations[`speed${referenceSpeed}`] = {
       type: 'line',
-      xMin: times['0-300'],
-      xMax: times['0-300'],
-      borderColor: 'hsl(300 60% 50%)',
-      borderWidth: 3,
-      borderDash: [5, 5],
-      label: {
-        content: '0-300 km/h',
-        enabled: true,
-        position: 'end',
-        yAdjust: -10,
-        backgroundColor: 'hsl(300 60% 50%)',
-        color: 'hsl(0 0% 100%)',
-        font: {
-          size: 12,
-          weight: 'bold',
-        },
-        padding: 6,
-        cornerRadius: 4,
-      },
+      yMin: referenceSpeed,
+      yMax: referenceSpeed,
+      borderColor: 'hsl(220 15% 40%)',
+      borderWidth: 1,
+      borderDash: [2, 2],
     };
-  }
-
-  // Add horizontal reference grid lines
-  annotations['speed50'] = {
-    type: 'line',
-    yMin: 50,
-    yMax: 50,
-    borderColor: 'hsl(220 15% 40%)',
-    borderWidth: 1,
-    borderDash: [2, 2],
-  };
-
-  annotations['speed100'] = {
-    type: 'line',
-    yMin: 100,
-    yMax: 100,
-    borderColor: 'hsl(220 15% 40%)',
-    borderWidth: 1,
-    borderDash: [2, 2],
-  };
-
-  annotations['speed150'] = {
-    type: 'line',
-    yMin: 150,
-    yMax: 150,
-    borderColor: 'hsl(220 15% 40%)',
-    borderWidth: 1,
-    borderDash: [2, 2],
-  };
-
-  annotations['speed200'] = {
-    type: 'line',
-    yMin: 200,
-    yMax: 200,
-    borderColor: 'hsl(220 15% 40%)',
-    borderWidth: 1,
-    borderDash: [2, 2],
-  };
-
-  annotations['speed250'] = {
-    type: 'line',
-    yMin: 250,
-    yMax: 250,
-    borderColor: 'hsl(220 15% 40%)',
-    borderWidth: 1,
-    borderDash: [2, 2],
-  };
+  });
 
   const options: ChartOptions<'line'> = {
     responsive: true,
@@ -366,7 +273,7 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
         displayColors: true,
         callbacks: {
           title: (context) => `Time: ${context[0].label}s`,
-          label: (context) => `${context.dataset.label}: ${context.parsed.y.toFixed(1)} km/h`,
+          label: (context) => `${context.dataset.label}: ${context.parsed.y.toFixed(1)} ${speedUnit(unitSystem)}`,
         },
       },
     },
@@ -400,7 +307,7 @@ const SpeedChart = forwardRef<SpeedChartRef, SpeedChartProps>(({ dataPoints, tim
         display: true,
         title: {
           display: true,
-          text: 'Speed (km/h)',
+          text: `Speed (${speedUnit(unitSystem)})`,
           color: 'hsl(0 0% 20%)',
           font: {
             size: 14,
@@ -1,27 +1,55 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { Play, Square, RotateCcw, Download, Zap, TestTube } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Play, Square, RotateCcw, Download, Zap, TestTube, History, FileText, FileSpreadsheet, MapPin, FileDown, Satellite, ArrowLeftRight, Flag } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import SpeedChart from './SpeedChart';
-import { CubicSpline } from '../utils/CubicSpline';
 import { MultiPassInterpolator } from '../utils/DataProcessing';
 import { useSensorFusion } from '../hooks/useSensorFusion';
 import { useGPSTracking } from '../hooks/useGPSTracking';
 import { MeasurementDisplay } from './MeasurementDisplay';
 import { ResultsPanel } from './ResultsPanel';
-
-interface TimingResults {
-  '0-30': number | null;
-  '0-60': number | null;
-  '0-100': number | null;
-  '0-200': number | null;
-  '0-250': number | null;
-  '0-300': number | null;
-  quarterMile: number | null;
-  halfMile: number | null;
-}
+import { GMeter } from './GMeter';
+import { SmoothedResults } from './SmoothedResults';
+import { DragTreeDisplay } from './DragTreeDisplay';
+import { DragTimeslip } from './DragTimeslip';
+import { SettingsSheet } from './SettingsSheet';
+import { useMilestones, useSettings, useUnitSystem } from '../hooks/useSettings';
+import { formatDistance, formatSpeed } from '../utils/Units';
+import {
+  DRAG_MILESTONES,
+  TimingResults,
+  createEmptyResults,
+  findActiveRange,
+  getMilestoneToastTitle,
+} from '../utils/Milestones';
+import {
+  BrakingResult,
+  BRAKING_ENTRY_PRESETS,
+  formatBrakingTest,
+} from '../utils/BrakingAnalysis';
+import { StoredRun, TestMode, createRunId, getDeviceInfo, getRun, listRuns, saveRun } from '../utils/RunStore';
+import { buildTelemetryCsv } from '../utils/TelemetryCsv';
+import { buildGpx, buildKml } from '../utils/TrackExport';
+import { buildVbo } from '../utils/Vbo';
+import { isSerialSupported } from '../utils/NmeaReceiver';
+import { ReplayLocationProvider } from '../utils/ReplayLocationProvider';
+import { GNSS_PRESETS, VEHICLE_PRESETS, generateSimulatedFixes } from '../utils/VehicleSimulator';
+import { downloadFile, getRunFileStem } from '../utils/Download';
+import { MeasurementResult, MeasurementSession, SessionFix, SessionPhase } from '../utils/MeasurementSession';
+import { getReportedResults, smoothRun } from '../utils/RunSmoothing';
+import { estimateUncertainties, formatUncertainty } from '../utils/ResultUncertainty';
+import { VALIDITY_LABELS, validateRun } from '../utils/RunValidation';
+import { findOppositeRun, isPairable, linkRuns } from '../utils/TwoWayRuns';
+import { DragResult, DragTree, TreeLight, TreePhase } from '../utils/DragTree';
+import { buildTimeslip, formatReactionTime } from '../utils/Timeslip';
+import { formatRollout, getRolloutDistance } from '../utils/Rollout';
+import { computeTrapSpeeds } from '../utils/TrapSpeed';
 
 interface DataPoint {
   time: number;
@@ -29,104 +57,100 @@ interface DataPoint {
 }
 
 const SpeedSnap: React.FC = () => {
-  const [isRunning, setIsRunning] = useState(false);
-  const [waitingForAcceleration, setWaitingForAcceleration] = useState(false);
+  const [sessionPhase, setSessionPhase] = useState<SessionPhase>('idle');
+  const [entrySpeedReached, setEntrySpeedReached] = useState(false);
   const [speed, setSpeed] = useState(0);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [distance, setDistance] = useState(0);
   const [gpsAccuracy, setGpsAccuracy] = useState<number | null>(null);
-  const [times, setTimes] = useState<TimingResults>({
-    '0-30': null,
-    '0-60': null,
-    '0-100': null,
-    '0-200': null,
-    '0-250': null,
-    '0-300': null,
-    quarterMile: null,
-    halfMile: null,
-  });
+  const milestones = useMilestones();
+  const unitSystem = useUnitSystem();
+  const { settings } = useSettings();
+  const [times, setTimes] = useState<TimingResults>(() => createEmptyResults(milestones));
   const [dataPoints, setDataPoints] = useState<DataPoint[]>([]);
   const [hasResults, setHasResults] = useState(false);
-
-  const startTimeRef = useRef<number | null>(null);
+  const [testMode, setTestMode] = useState<TestMode>('acceleration');
+  const [brakingEntrySpeed, setBrakingEntrySpeed] = useState<number>(BRAKING_ENTRY_PRESETS[unitSystem][0]);
+  const [brakingResult, setBrakingResult] = useState<BrakingResult | null>(null);
+  const [viewedRun, setViewedRun] = useState<StoredRun | null>(null);
+  // Drag mode is an acceleration run started from the Christmas tree
+  const [dragMode, setDragMode] = useState(false);
+  const [treePhase, setTreePhase] = useState<TreePhase>('idle');
+  const [treeLights, setTreeLights] = useState<TreeLight[]>([]);
+  const [dragResult, setDragResult] = useState<DragResult | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Clock of the location source, so runs replayed from recorded fixes time identically
+  const locationClockRef = useRef<() => number>(() => performance.now());
+  // The measurement engine; this component only forwards input to it and mirrors its events
+  const session = useMemo(() => new MeasurementSession(() => locationClockRef.current()), []);
+  // Shares the session's clock, so reaction times line up with launch detection
+  const dragTree = useMemo(() => new DragTree(() => locationClockRef.current()), []);
   const chartRef = useRef<any>(null);
   const multiPassInterpolator = useRef(new MultiPassInterpolator());
+  const simulatingRef = useRef(false);
+
+  const isRunning = sessionPhase === 'running';
+  // The session is armed once the vehicle stages; before that the tree waits for it
+  const isActive = sessionPhase === 'armed' || isRunning || treePhase === 'preStaged';
+  // Drag runs are always timed over the drag-strip increments
+  const activeMilestones = dragMode ? DRAG_MILESTONES : milestones;
+  const rollout = getRolloutDistance(settings.rollout, settings.customRollout);
+  const waitingForAcceleration = sessionPhase === 'armed' && testMode === 'acceleration';
 
   // Handle acceleration detection callback
   const handleAccelerationDetected = useCallback(() => {
     console.log('🚀 Acceleration detected! Starting measurement...');
-    setWaitingForAcceleration(false);
-    setIsRunning(true);
-    
-    // Don't set startTimeRef yet - wait for actual speed registration in handleSpeedUpdate
-    console.log('🕐 Measurement active, waiting for speed to start timer');
+    // The session starts the timer on the first fix that registers speed
+    session.launch();
     
     initializeKalmanFilter();
-    resetGPSTracking();
-    
-    startGPSTracking({
-      enableHighAccuracy: true,
-      maximumAge: 0,
-      timeout: 10000,
-    });
-    
-    console.log('📍 GPS tracking started with high accuracy');
-  }, []);
+    // Tracking has run since the session was armed; it carries on, and so do the fixes
+    // from before the launch that the creep and rollback checks look at
+  }, [session]);
+
+  // Fused speed at the accelerometer rate times milestones between GPS fixes
+  const handleFusedSpeed = useCallback((time: number, fusedSpeed: number) => {
+    session.pushSpeedSample(time, fusedSpeed);
+  }, [session]);
+
+  const getLocationTime = useCallback(() => locationClockRef.current(), []);
+
+  // Handle brake onset: the run is timed from here until the vehicle comes to a standstill.
+  // The sensor hook starts its accelerometer log at the same instant.
+  const handleBrakingDetected = useCallback(() => {
+    session.brakeOnset();
+  }, [session]);
 
   // Initialize sensor fusion hook
   const {
     initializeSensors,
     initializeKalmanFilter,
     updateKalmanFilter,
-    getAccelerometerData,
+    getVehicleAcceleration,
+    calibrationState,
+    recalibrate,
     resetSensorFusion,
-    waitingForAccelerationRef
+    startAccelerometerLog,
+    stopAccelerometerLog,
+    waitingForAccelerationRef,
+    waitingForBrakingRef
   } = useSensorFusion({
     onAccelerationDetected: handleAccelerationDetected,
     waitingForAcceleration,
-    accelerationThreshold: 0.5
+    accelerationThreshold: 0.5,
+    onBrakingDetected: handleBrakingDetected,
+    now: getLocationTime,
+    onFusedSpeed: handleFusedSpeed,
   });
 
-  // Handle speed updates from GPS
-  const handleSpeedUpdate = useCallback((newSpeed: number) => {
-    console.log('🏃 Speed update received:', newSpeed.toFixed(2), 'km/h');
-    setSpeed(newSpeed);
-    
-    // Check if we should start measurement based on speed (fallback for acceleration detection)
-    if (waitingForAcceleration && !isRunning && newSpeed > 5) {
-      console.log('🚀 Speed-based measurement start triggered! Speed:', newSpeed.toFixed(2), 'km/h');
-      setWaitingForAcceleration(false);
-      waitingForAccelerationRef.current = false;
-      setIsRunning(true);
-      // Don't set startTimeRef yet - wait for actual speed registration
-      
-      toast({
-        title: "Measurement Started!",
-        description: "Movement detected via GPS",
-      });
-    }
-    
-    // Start the timer immediately when we're running AND have any speed > 0 (fixed from >1 km/h)
-    if (isRunning && newSpeed > 0 && !startTimeRef.current) {
-      console.log('⏰ Starting timer immediately - speed detected:', newSpeed.toFixed(2), 'km/h');
-      startTimeRef.current = performance.now();
-    }
-    
-    const elapsed = startTimeRef.current ? (performance.now() - startTimeRef.current) / 1000 : 0;
-    console.log('⏱️ Elapsed time:', elapsed.toFixed(2), 's');
-    setElapsedTime(elapsed);
-  }, [waitingForAcceleration, isRunning, waitingForAccelerationRef]);
-
-  // Handle data point additions
-  const handleDataPointAdded = useCallback((dataPoint: DataPoint) => {
-    console.log('📊 Data point added:', dataPoint);
-    setDataPoints(prev => [...prev, dataPoint]);
-  }, []);
+  // Every processed fix drives the session: arming, timing, distance and milestones
+  const handleFix = useCallback((fix: SessionFix) => {
+    session.pushFix(fix);
+    dragTree.pushFix(fix);
+  }, [session, dragTree]);
 
-  // Handle distance updates
-  const handleDistanceUpdate = useCallback((additionalDistance: number) => {
-    setDistance(prev => prev + additionalDistance);
-  }, []);
+  const getStartTime = useCallback(() => session.timerStart, [session]);
 
   // Handle GPS accuracy updates
   const handleGpsAccuracyUpdate = useCallback((accuracy: number) => {
@@ -137,22 +161,29 @@ const SpeedSnap: React.FC = () => {
   const {
     gpsStatus,
     gpsHz,
+    gnssQuality,
+    now: locationNow,
+    setLocationProvider,
+    externalReceiverConnected,
+    connectExternalReceiver,
+    disconnectExternalReceiver,
     requestGPSPermission,
     startGPSTracking,
     stopGPSTracking,
     resetGPSTracking,
+    getRawFixes,
     setGpsStatus
   } = useGPSTracking({
-    isRunning,
-    startTime: startTimeRef.current,
+    getStartTime,
     updateKalmanFilter,
-    getAccelerometerData,
-    onSpeedUpdate: handleSpeedUpdate,
-    onDataPointAdded: handleDataPointAdded,
-    onDistanceUpdate: handleDistanceUpdate,
+    onFix: handleFix,
     onGpsAccuracyUpdate: handleGpsAccuracyUpdate
   });
 
+  useEffect(() => {
+    locationClockRef.current = locationNow;
+  }, [locationNow]);
+
   // Initialize sensors and permissions
   useEffect(() => {
     const initializeApp = async () => {
@@ -171,90 +202,199 @@ const SpeedSnap: React.FC = () => {
     initializeKalmanFilter();
   }, []);
 
-  // Check timing milestones in real-time
+  // Mirror the session into component state and let its events drive the sensors and storage
   useEffect(() => {
-    if (!isRunning) return;
-
-    setTimes(prev => {
-      const newTimes = { ...prev };
-      const elapsed = elapsedTime;
+    // A run back over the same stretch completes a two-way pair
+    const pairWithOppositeRun = async (run: StoredRun) => {
+      if (!isPairable(run)) return;
+      try {
+        const opposite = findOppositeRun(run, await listRuns());
+        if (!opposite) return;
 
-      if (speed >= 30 && !prev['0-30']) {
-        newTimes['0-30'] = elapsed;
-        toast({
-          title: "30 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
-        });
-      }
-      if (speed >= 60 && !prev['0-60']) {
-        newTimes['0-60'] = elapsed;
+        const [linked] = await linkRuns(run, opposite);
+        setViewedRun(current => (current?.id === run.id ? linked : current));
         toast({
-          title: "60 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: "Two-Way Pair Complete",
+          description: `Paired with the opposite run from ${new Date(opposite.createdAt).toLocaleTimeString()}`,
         });
+      } catch (error) {
+        console.error('Failed to pair run:', error);
       }
-      if (speed >= 100 && !prev['0-100']) {
-        newTimes['0-100'] = elapsed;
+    };
+
+    // Persist the completed run so it survives a reset
+    const persistRun = (result: MeasurementResult) => {
+      const run: StoredRun = {
+        id: createRunId(),
+        createdAt: Date.now(),
+        mode: result.mode,
+        unitSystem,
+        milestones: result.milestones,
+        times: result.times,
+        rollout: result.mode === 'acceleration' ? result.rollout : undefined,
+        braking: result.braking,
+        brakingTest: result.brakingEntrySpeed,
+        distance: result.distance,
+        dataPoints: result.dataPoints,
+        rawFixes: getRawFixes(),
+        accelerometer: result.accelerometer,
+        device: getDeviceInfo(),
+        simulated: simulatingRef.current,
+        vehicle: simulatingRef.current
+          ? VEHICLE_PRESETS[settings.simulatorVehicle]?.name
+          : settings.vehicleName.trim() || undefined,
+        drag: dragMode ? dragTree.getResult() ?? { tree: settings.dragTree, reactionTime: null, redLight: false } : undefined,
+      };
+
+      // Keep the recorded run on screen so it can be exported straight away
+      setViewedRun(run);
+      saveRun(run).then(() => pairWithOppositeRun(run), error => {
+        console.error('Failed to save run:', error);
         toast({
-          title: "100 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: "Run Not Saved",
+          description: "Could not write the run to local storage",
+          variant: "destructive",
         });
-      }
-      if (speed >= 200 && !prev['0-200']) {
-        newTimes['0-200'] = elapsed;
+      });
+    };
+
+    const unsubscribers = [
+      session.on('phase', phase => {
+        setSessionPhase(phase);
+        if (phase === 'armed') setEntrySpeedReached(false);
+        if (phase !== 'armed') {
+          waitingForAccelerationRef.current = false;
+          waitingForBrakingRef.current = false;
+        }
+
+        if (phase === 'finished') {
+          setGpsStatus('Processing results...');
+          stopGPSTracking();
+          if (simulatingRef.current) {
+            // Hand tracking back to the device once the simulated fixes are no longer needed
+            setLocationProvider(null);
+          }
+          session.process(stopAccelerometerLog());
+        }
+      }),
+
+      session.on('entrySpeedReached', () => {
+        setEntrySpeedReached(true);
+        waitingForBrakingRef.current = true;
         toast({
-          title: "200 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: "Armed!",
+          description: `Above ${formatSpeed(brakingEntrySpeed, unitSystem)} - brake when ready`,
         });
-      }
-      if (speed >= 250 && !prev['0-250']) {
-        newTimes['0-250'] = elapsed;
+      }),
+
+      session.on('started', (trigger, entrySpeed) => {
+        // The first movement ends the driver's reaction to the tree
+        if (dragMode) dragTree.move();
+
+        if (testMode === 'braking') {
+          toast({
+            title: "Braking Detected!",
+            description: `Entry speed: ${formatSpeed(entrySpeed, unitSystem, 1)}`,
+          });
+        } else if (trigger === 'speed') {
+          // The sensor hook announces launches it detects itself
+          toast({
+            title: "Measurement Started!",
+            description: "Movement detected via GPS",
+          });
+        }
+      }),
+
+      session.on('timerStarted', () => {
+        // Samples are timed from the timer start, the zero of the speed trace
+        startAccelerometerLog(session.timerStart);
+      }),
+
+      session.on('update', state => {
+        setSpeed(state.speed);
+        setElapsedTime(state.elapsed);
+        setDistance(state.distance);
+      }),
+
+      session.on('sample', point => {
+        setDataPoints(prev => [...prev, point]);
+      }),
+
+      session.on('milestone', (id, result) => {
+        setTimes(prev => ({ ...prev, [id]: result }));
+        // The milestone set can change mid-run; its result is kept but there is nothing to announce
+        const milestone = activeMilestones.find(m => m.id === id);
+        if (!milestone) return;
         toast({
-          title: "250 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: getMilestoneToastTitle(milestone, unitSystem),
+          description: `Time: ${result.time.toFixed(2)}s`,
         });
-      }
-      if (speed >= 300 && !prev['0-300']) {
-        newTimes['0-300'] = elapsed;
+      }),
+
+      session.on('processed', result => {
+        if (result.complete) persistRun(result);
+        simulatingRef.current = false;
+
+        if (result.mode === 'braking') {
+          setBrakingResult(result.braking);
+          setGpsStatus(result.braking ? 'Braking test complete' : 'Braking test aborted');
+          setHasResults(result.braking !== null);
+
+          if (result.braking) {
+            toast({
+              title: "Braking Test Complete",
+              description: `Stopped in ${formatDistance(result.braking.stoppingDistance, unitSystem)} (${result.braking.stoppingTime.toFixed(2)}s)`,
+            });
+          }
+          return;
+        }
+
+        setTimes(result.times);
+        setGpsStatus('Measurement complete');
+        setHasResults(true);
+
         toast({
-          title: "300 km/h Reached!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: "Measurement Complete",
+          description: "Check your results below!",
         });
-      }
-      return newTimes;
-    });
-  }, [speed, elapsedTime, isRunning]);
+      }),
+    ];
 
-  // Check distance milestones
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [session, dragTree, dragMode, testMode, brakingEntrySpeed, unitSystem, activeMilestones, settings.dragTree, settings.simulatorVehicle, settings.vehicleName, stopGPSTracking, setLocationProvider, setGpsStatus, startAccelerometerLog, stopAccelerometerLog, getRawFixes, waitingForAccelerationRef, waitingForBrakingRef]);
+
+  // Mirror the drag tree; staging on the line arms the session for the launch
   useEffect(() => {
-    if (!isRunning) return;
+    const unsubscribers = [
+      dragTree.on('phase', phase => {
+        setTreePhase(phase);
+        if (phase === 'staged') {
+          session.arm({ mode: 'acceleration', milestones: DRAG_MILESTONES, brakingEntrySpeed, rollout });
+          waitingForAccelerationRef.current = true;
+          setGpsStatus('Staged: launch on the green');
+        }
+      }),
 
-    setTimes(prev => {
-      const newTimes = { ...prev };
-      const elapsed = elapsedTime;
+      dragTree.on('lights', lights => {
+        setTreeLights(lights);
+      }),
 
-      if (distance >= 402.336 && !prev.quarterMile) {
-        newTimes.quarterMile = elapsed;
+      dragTree.on('result', result => {
+        setDragResult(result);
         toast({
-          title: "Quarter Mile Complete!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
+          title: result.redLight ? "Red Light!" : "Reaction Time",
+          description: `R/T ${formatReactionTime(result.reactionTime)}`,
+          variant: result.redLight ? "destructive" : undefined,
         });
-      }
-      if (distance >= 804.672 && !prev.halfMile) {
-        newTimes.halfMile = elapsed;
-        stopMeasurement();
-        toast({
-          title: "Half Mile Complete!",
-          description: `Time: ${elapsed.toFixed(2)}s`,
-        });
-      }
-      return newTimes;
-    });
-  }, [distance, elapsedTime, isRunning]);
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [session, dragTree, brakingEntrySpeed, rollout, setGpsStatus, waitingForAccelerationRef]);
 
   // Prepare for measurement (called when START button is pressed)
   const startMeasurement = useCallback(async () => {
-    if (isRunning || waitingForAcceleration) return;
+    if (session.phase === 'armed' || session.phase === 'running' || dragTree.phase === 'preStaged') return;
 
     console.log('🎯 START button pressed - preparing for measurement');
     
@@ -265,23 +405,55 @@ const SpeedSnap: React.FC = () => {
       return;
     }
 
-    setWaitingForAcceleration(true);
-    waitingForAccelerationRef.current = true;
+    resetGPSTracking();
+    setViewedRun(null);
     setSpeed(0);
     setElapsedTime(0);
     setDistance(0);
     setDataPoints([]);
-    setTimes({
-      '0-30': null,
-      '0-60': null,
-      '0-100': null,
-      '0-200': null,
-      '0-250': null,
-      '0-300': null,
-      quarterMile: null,
-      halfMile: null,
-    });
     setHasResults(false);
+
+    if (dragMode) {
+      // The session is armed by the tree once the vehicle stages
+      setDragResult(null);
+      setTimes(createEmptyResults(DRAG_MILESTONES));
+      dragTree.preStage(settings.dragTree);
+      setGpsStatus('Pre-stage: roll up to the line and stop');
+
+      startGPSTracking({
+        enableHighAccuracy: true,
+        maximumAge: 0,
+        timeout: 5000,
+      });
+
+      toast({
+        title: "Pre-Staged",
+        description: "Stop on the line; the tree starts once you are staged",
+      });
+      return;
+    }
+
+    session.arm({ mode: testMode, milestones, brakingEntrySpeed, rollout });
+
+    if (testMode === 'braking') {
+      setBrakingResult(null);
+      setGpsStatus(`Accelerate above ${formatSpeed(brakingEntrySpeed, unitSystem)} to arm`);
+
+      startGPSTracking({
+        enableHighAccuracy: true,
+        maximumAge: 0,
+        timeout: 5000,
+      });
+
+      toast({
+        title: "Braking Test Ready",
+        description: `Accelerate above ${formatSpeed(brakingEntrySpeed, unitSystem)}, then brake to a full stop`,
+      });
+      return;
+    }
+
+    waitingForAccelerationRef.current = true;
+    setTimes(createEmptyResults(milestones));
     setGpsStatus('Waiting for acceleration... (>2.5 m/s²)');
 
     console.log('📍 Starting GPS tracking while waiting for acceleration');
@@ -296,145 +468,75 @@ const SpeedSnap: React.FC = () => {
       title: "Ready to Start",
       description: "Accelerate to begin measurement (>2.5 m/s²)",
     });
-  }, [isRunning, waitingForAcceleration, startGPSTracking, requestGPSPermission]);
+  }, [session, dragTree, dragMode, testMode, brakingEntrySpeed, rollout, unitSystem, milestones, settings.dragTree, startGPSTracking, resetGPSTracking, requestGPSPermission, setGpsStatus]);
 
-  // Stop measurement
+  // Stop measurement; the session's finished event takes care of processing and saving
   const stopMeasurement = useCallback(() => {
-    if (!isRunning && !waitingForAcceleration) return;
-
-    setIsRunning(false);
-    setWaitingForAcceleration(false);
-    setGpsStatus('Processing results...');
-    startTimeRef.current = null; // Reset timer
+    if (dragTree.phase === 'preStaged') {
+      dragTree.reset();
+      stopGPSTracking();
+      setGpsStatus('Drag run cancelled');
+      return;
+    }
+    // Stopped on the line: the tree has nothing left to time
+    if (!dragTree.getResult()) dragTree.reset();
+    session.stop();
+  }, [session, dragTree, stopGPSTracking, setGpsStatus]);
 
-    stopGPSTracking();
+  // Reopen a stored run (e.g. from the history screen) into the chart and results panel
+  const runIdParam = searchParams.get('run');
+  useEffect(() => {
+    if (!runIdParam) return;
 
-    // Advanced post-processing with multi-pass interpolation
-    if (dataPoints.length >= 4) {
-      try {
-        console.log('Starting advanced post-processing with', dataPoints.length, 'data points');
-        
-        setTimes(prev => {
-          const newTimes = { ...prev };
-          
-          // Use multi-pass interpolation for missing times
-          if (!prev['0-30'] && dataPoints.some(p => p.speed >= 30)) {
-            const time30 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 30);
-            if (time30 !== null) {
-              newTimes['0-30'] = time30;
-              console.log('Multi-pass interpolation found 0-30 time:', time30);
-            }
-          }
-          
-          if (!prev['0-60'] && dataPoints.some(p => p.speed >= 60)) {
-            const time60 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 60);
-            if (time60 !== null) {
-              newTimes['0-60'] = time60;
-              console.log('Multi-pass interpolation found 0-60 time:', time60);
-            }
-          }
-          
-          if (!prev['0-100'] && dataPoints.some(p => p.speed >= 100)) {
-            const time100 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 100);
-            if (time100 !== null) {
-              newTimes['0-100'] = time100;
-              console.log('Multi-pass interpolation found 0-100 time:', time100);
-            }
-          }
-          
-          if (!prev['0-200'] && dataPoints.some(p => p.speed >= 200)) {
-            const time200 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 200);
-            if (time200 !== null) {
-              newTimes['0-200'] = time200;
-              console.log('Multi-pass interpolation found 0-200 time:', time200);
-            }
-          }
-          
-          if (!prev['0-250'] && dataPoints.some(p => p.speed >= 250)) {
-            const time250 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 250);
-            if (time250 !== null) {
-              newTimes['0-250'] = time250;
-            }
-          }
-          
-          if (!prev['0-300'] && dataPoints.some(p => p.speed >= 300)) {
-            const time300 = multiPassInterpolator.current.findTimeForSpeed(dataPoints, 300);
-            if (time300 !== null) {
-              newTimes['0-300'] = time300;
-            }
-          }
-          
-          return newTimes;
-        });
-      } catch (error) {
-        console.error('Advanced interpolation error:', error);
-        
-        // Fallback to original cubic spline method
-        try {
-          const times = dataPoints.map(p => p.time);
-          const speeds = dataPoints.map(p => p.speed);
-          const spline = new CubicSpline(times, speeds);
-
-          setTimes(prev => {
-            const newTimes = { ...prev };
-            
-            if (!prev['0-30'] && speeds.some(s => s >= 30)) {
-              newTimes['0-30'] = spline.findTime(30);
-            }
-            if (!prev['0-60'] && speeds.some(s => s >= 60)) {
-              newTimes['0-60'] = spline.findTime(60);
-            }
-            if (!prev['0-100'] && speeds.some(s => s >= 100)) {
-              newTimes['0-100'] = spline.findTime(100);
-            }
-            if (!prev['0-200'] && speeds.some(s => s >= 200)) {
-              newTimes['0-200'] = spline.findTime(200);
-            }
-            if (!prev['0-250'] && speeds.some(s => s >= 250)) {
-              newTimes['0-250'] = spline.findTime(250);
-            }
-            if (!prev['0-300'] && speeds.some(s => s >= 300)) {
-              newTimes['0-300'] = spline.findTime(300);
-            }
-            
-            return newTimes;
+    getRun(runIdParam)
+      .then(run => {
+        if (!run) {
+          toast({
+            title: "Run Not Found",
+            description: "The selected run no longer exists",
+            variant: "destructive",
           });
-        } catch (fallbackError) {
-          console.error('Fallback interpolation also failed:', fallbackError);
+          return;
         }
-      }
-    }
 
-    setGpsStatus('Measurement complete');
-    setHasResults(true);
-    
-    toast({
-      title: "Measurement Complete",
-      description: "Check your results below!",
-    });
-  }, [isRunning, waitingForAcceleration, dataPoints, stopGPSTracking]);
+        console.log('📂 Reopening stored run:', run.id);
+        setViewedRun(run);
+        setTestMode(run.mode);
+        dragTree.reset();
+        setDragMode(!!run.drag);
+        setDragResult(run.drag ?? null);
+        setDataPoints(run.dataPoints);
+        setTimes(run.times);
+        setBrakingResult(run.braking);
+        setDistance(run.distance);
+        setSpeed(0);
+        setElapsedTime(run.dataPoints.length > 0 ? run.dataPoints[run.dataPoints.length - 1].time : 0);
+        setHasResults(true);
+        setGpsStatus(`Viewing run from ${new Date(run.createdAt).toLocaleString()}`);
+      })
+      .catch(error => console.error('Failed to load run:', error));
+  }, [runIdParam, dragTree, setGpsStatus]);
+
+  // Braking presets differ per unit system (100/60 km/h vs 60/30 mph)
+  useEffect(() => {
+    setBrakingEntrySpeed(BRAKING_ENTRY_PRESETS[unitSystem][0]);
+  }, [unitSystem]);
 
   // Reset all data
   const resetMeasurement = useCallback(() => {
-    if (isRunning || waitingForAcceleration) {
-      stopMeasurement();
-    }
+    // A run in progress is stopped, processed and saved first
+    session.reset();
+    dragTree.reset();
+    setDragResult(null);
     
     setSpeed(0);
     setElapsedTime(0);
     setDistance(0);
     setDataPoints([]);
-    setWaitingForAcceleration(false);
-    setTimes({
-      '0-30': null,
-      '0-60': null,
-      '0-100': null,
-      '0-200': null,
-      '0-250': null,
-      '0-300': null,
-      quarterMile: null,
-      halfMile: null,
-    });
+    setBrakingResult(null);
+    setViewedRun(null);
+    setTimes(createEmptyResults(activeMilestones));
+    if (runIdParam) setSearchParams({});
     setHasResults(false);
     
     resetSensorFusion();
@@ -444,7 +546,40 @@ const SpeedSnap: React.FC = () => {
       title: "Reset Complete",
       description: "Ready for next measurement",
     });
-  }, [isRunning, waitingForAcceleration, stopMeasurement, resetSensorFusion, resetGPSTracking]);
+  }, [session, dragTree, activeMilestones, runIdParam, setSearchParams, resetSensorFusion, resetGPSTracking]);
+
+  // Post-run re-estimate over the whole recording, shown next to the live figures
+  const smoothedRun = useMemo(() => (viewedRun ? smoothRun(viewedRun) : null), [viewedRun]);
+
+  // Confidence intervals need the raw fixes, so they exist once a run has been recorded
+  const uncertainties = useMemo(
+    () => (viewedRun && smoothedRun ? estimateUncertainties(viewedRun, smoothedRun, times) : undefined),
+    [viewedRun, smoothedRun, times]
+  );
+  // Of the smoothed times, and of the live ones standing in where the smoothed trace has none
+  const smoothedUncertainties = useMemo(
+    () => (viewedRun && smoothedRun
+      ? estimateUncertainties(viewedRun, smoothedRun, getReportedResults(viewedRun, smoothedRun).times)
+      : undefined),
+    [viewedRun, smoothedRun]
+  );
+
+  // A reopened run is shown with the milestones it was recorded with
+  const displayMilestones = viewedRun ? viewedRun.milestones : activeMilestones;
+
+  // Trap and line speeds at the distance targets, from the speed trace on screen
+  const traps = useMemo(
+    () => computeTrapSpeeds(displayMilestones, times, dataPoints),
+    [displayMilestones, times, dataPoints]
+  );
+
+  // Slope, straightness, GPS quality and launch checks on the recorded run
+  const validation = useMemo(() => (viewedRun ? validateRun(viewedRun) : null), [viewedRun]);
+
+  const timeslip = useMemo(
+    () => (viewedRun ? buildTimeslip(viewedRun, smoothedRun, validation, smoothedUncertainties) : null),
+    [viewedRun, smoothedRun, validation, smoothedUncertainties]
+  );
 
   // Export results
   const exportResults = useCallback(() => {
@@ -452,22 +587,44 @@ const SpeedSnap: React.FC = () => {
 
     // Export as text
     let text = 'SpeedSnap Results\n';
-    text += `Date: ${new Date().toLocaleString()}\n\n`;
+    text += `Date: ${new Date(viewedRun ? viewedRun.createdAt : Date.now()).toLocaleString()}\n`;
+    if (validation) {
+      text += `Validity: ${VALIDITY_LABELS[validation.status]}\n`;
+      validation.issues.forEach(issue => {
+        text += `  - ${issue.message}${issue.severity === 'invalid' ? ' (invalidates run)' : ''}\n`;
+      });
+    }
+    if (testMode === 'acceleration') {
+      text += `Timing: ${formatRollout(viewedRun ? viewedRun.rollout : rollout, unitSystem)}\n`;
+    }
+    if (viewedRun?.drag) {
+      text += `Reaction time: ${formatReactionTime(viewedRun.drag.reactionTime)}${viewedRun.drag.redLight ? ' (red light)' : ''}\n`;
+    }
+    text += '\n';
+
+    if (testMode === 'braking' && brakingResult) {
+      text += `Braking test: ${formatBrakingTest(viewedRun?.brakingTest ?? brakingEntrySpeed, unitSystem)}\n`;
+      text += `Entry speed: ${formatSpeed(brakingResult.entrySpeed, unitSystem, 1)}\n`;
+      text += `Stopping distance: ${formatDistance(brakingResult.stoppingDistance, unitSystem, 2)}\n`;
+      text += `Stopping time: ${brakingResult.stoppingTime.toFixed(2)} s\n`;
+      text += `Mean deceleration: ${brakingResult.meanDecelG.toFixed(2)} g\n`;
+      text += `Peak deceleration: ${brakingResult.peakDecelG.toFixed(2)} g\n`;
+    }
     
-    if (times['0-30']) text += `0-30 km/h: ${times['0-30'].toFixed(2)} s\n`;
-    if (times['0-60']) text += `0-60 km/h: ${times['0-60'].toFixed(2)} s\n`;
-    if (times['0-100']) text += `0-100 km/h: ${times['0-100'].toFixed(2)} s\n`;
-    if (times['0-200']) text += `0-200 km/h: ${times['0-200'].toFixed(2)} s\n`;
-    if (times['0-250']) text += `0-250 km/h: ${times['0-250'].toFixed(2)} s\n`;
-    if (times['0-300']) text += `0-300 km/h: ${times['0-300'].toFixed(2)} s\n`;
-    if (times.quarterMile) text += `Quarter Mile: ${times.quarterMile.toFixed(2)} s\n`;
-    if (times.halfMile) text += `Half Mile: ${times.halfMile.toFixed(2)} s\n`;
-
-    const blob = new Blob([text], { type: 'text/plain' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `speedsnap-results-${new Date().toISOString().split('T')[0]}.txt`;
-    link.click();
+    displayMilestones.forEach(milestone => {
+      const result = times[milestone.id];
+      if (!result) return;
+      const uncertainty = uncertainties?.[milestone.id];
+      const trap = traps[milestone.id];
+      text += `${milestone.label}${milestone.kind === 'range' ? ' (rolling)' : ''}: ${result.time.toFixed(2)} s`;
+      text += uncertainty ? ` ${formatUncertainty(uncertainty)} (grade ${uncertainty.grade})\n` : '\n';
+      if (trap) {
+        text += `  Trap speed: ${formatSpeed(trap.trap, unitSystem, 2)} (last ${formatDistance(trap.length, unitSystem, 0)})\n`;
+        text += `  Speed at line: ${formatSpeed(trap.instantaneous, unitSystem, 2)}\n`;
+      }
+    });
+
+    downloadFile(text, `speedsnap-results-${new Date().toISOString().split('T')[0]}.txt`, 'text/plain');
 
     // Export chart if available
     if (chartRef.current) {
@@ -478,195 +635,167 @@ const SpeedSnap: React.FC = () => {
       title: "Results Exported",
       description: "Files downloaded successfully",
     });
-  }, [hasResults, times]);
+  }, [hasResults, times, uncertainties, traps, validation, displayMilestones, rollout, viewedRun, testMode, brakingResult, brakingEntrySpeed, unitSystem]);
 
-  // Simulate complete acceleration test for all measurements
-  const simulateSprint = useCallback(() => {
-    if (isRunning || waitingForAcceleration) return;
+  const exportTelemetry = useCallback(() => {
+    if (!viewedRun) return;
 
-    setIsRunning(true);
-    setSpeed(0);
-    setElapsedTime(0);
-    setDistance(0);
-    setDataPoints([]);
-    setTimes({
-      '0-30': null,
-      '0-60': null,
-      '0-100': null,
-      '0-200': null,
-      '0-250': null,
-      '0-300': null,
-      quarterMile: null,
-      halfMile: null,
+    downloadFile(buildTelemetryCsv(viewedRun, uncertainties, validation), `${getRunFileStem(viewedRun.createdAt)}.csv`, 'text/csv');
+
+    toast({
+      title: "Telemetry Exported",
+      description: `${viewedRun.rawFixes.length} GPS fixes, ${viewedRun.accelerometer.length} accelerometer samples`,
     });
-    setHasResults(false);
-    
-    // Generate realistic acceleration data up to 300km/h and half mile
-    const simulationData: DataPoint[] = [];
-    const totalTime = 25.0; // Extended time to reach all milestones
-    const timeStep = 0.1; // 100ms intervals
-    
-    for (let t = 0; t <= totalTime; t += timeStep) {
-      // Realistic acceleration curve with decreasing acceleration at higher speeds
-      let speed;
-      if (t <= 2.0) {
-        // Initial strong acceleration (0-50 km/h)
-        speed = t * 25;
-      } else if (t <= 6.0) {
-        // 0-100 km/h phase
-        speed = 50 + (t - 2.0) * 12.5;
-      } else if (t <= 12.0) {
-        // 100-200 km/h phase (slower acceleration)
-        speed = 100 + (t - 6.0) * 16.67;
-      } else if (t <= 18.0) {
-        // 200-250 km/h phase (much slower)
-        speed = 200 + (t - 12.0) * 8.33;
-      } else {
-        // 250-300 km/h phase (very slow)
-        speed = 250 + (t - 18.0) * 7.14;
-      }
-      
-      // Add some realistic noise/variance
-      speed += (Math.random() - 0.5) * 3;
-      speed = Math.max(0, Math.min(speed, 300));
-      
-      // Calculate approximate distance (very rough estimation)
-      const avgSpeed = t > 0 ? speed / 2 : 0; // Average speed approximation
-      const distance = (avgSpeed * t * 1000) / 3600; // Convert to meters
-      
-      simulationData.push({ time: t, speed });
+  }, [viewedRun, uncertainties, validation]);
+
+  const exportTrack = useCallback((format: 'gpx' | 'kml') => {
+    if (!viewedRun) return;
+
+    if (format === 'gpx') {
+      downloadFile(buildGpx(viewedRun, uncertainties, validation), `${getRunFileStem(viewedRun.createdAt)}.gpx`, 'application/gpx+xml');
+    } else {
+      downloadFile(buildKml(viewedRun, uncertainties, validation), `${getRunFileStem(viewedRun.createdAt)}.kml`, 'application/vnd.google-earth.kml+xml');
     }
-    
-    // Animate the simulation
-    let currentIndex = 0;
-    startTimeRef.current = performance.now();
-    
-    const animate = () => {
-      if (currentIndex >= simulationData.length) {
-        // Simulation complete
-        setTimeout(() => {
-          stopMeasurement();
-        }, 500);
-        return;
-      }
-      
-      const dataPoint = simulationData[currentIndex];
-      setSpeed(dataPoint.speed);
-      setElapsedTime(dataPoint.time);
-      setDataPoints(prev => [...prev, dataPoint]);
-      
-      // Update distance for simulation (approximate)
-      const avgSpeed = dataPoint.speed / 3.6; // Convert km/h to m/s
-      const distanceIncrement = avgSpeed * 0.1; // Distance in 0.1 seconds
-      setDistance(prev => prev + distanceIncrement);
-      
-      // Check for milestones during simulation
-      const elapsed = dataPoint.time;
-      setTimes(prev => {
-        const newTimes = { ...prev };
-        
-        // Speed milestones
-        if (dataPoint.speed >= 30 && !prev['0-30']) {
-          newTimes['0-30'] = elapsed;
-          toast({
-            title: "30 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (dataPoint.speed >= 60 && !prev['0-60']) {
-          newTimes['0-60'] = elapsed;
-          toast({
-            title: "60 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (dataPoint.speed >= 100 && !prev['0-100']) {
-          newTimes['0-100'] = elapsed;
-          toast({
-            title: "100 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (dataPoint.speed >= 200 && !prev['0-200']) {
-          newTimes['0-200'] = elapsed;
-          toast({
-            title: "200 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (dataPoint.speed >= 250 && !prev['0-250']) {
-          newTimes['0-250'] = elapsed;
-          toast({
-            title: "250 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (dataPoint.speed >= 300 && !prev['0-300']) {
-          newTimes['0-300'] = elapsed;
-          toast({
-            title: "300 km/h Reached!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        
-        // Distance milestones (update distance state and check)
-        const currentDistance = (avgSpeed * elapsed * 1000) / 3600;
-        if (currentDistance >= 402.336 && !prev.quarterMile) {
-          newTimes.quarterMile = elapsed;
-          toast({
-            title: "Quarter Mile Complete!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        if (currentDistance >= 804.672 && !prev.halfMile) {
-          newTimes.halfMile = elapsed;
-          toast({
-            title: "Half Mile Complete!",
-            description: `Time: ${elapsed.toFixed(2)}s`,
-          });
-        }
-        
-        return newTimes;
-      });
-      
-      currentIndex++;
-      setTimeout(animate, 100); // 100ms between updates
-    };
-    
+
     toast({
-      title: "Full Test Simulation Started",
-      description: "Running complete acceleration test (0-300km/h, 1/4 & 1/2 mile)",
+      title: "Track Exported",
+      description: `${viewedRun.rawFixes.length} track points saved as ${format.toUpperCase()}`,
     });
-    
-    animate();
-  }, [isRunning, waitingForAcceleration, times, stopMeasurement]);
+  }, [viewedRun, uncertainties, validation]);
+
+  const exportVbo = useCallback(() => {
+    if (!viewedRun) return;
+
+    downloadFile(buildVbo(viewedRun, validation), `${getRunFileStem(viewedRun.createdAt)}.vbo`, 'text/plain');
+
+    toast({
+      title: "VBO Exported",
+      description: `${viewedRun.rawFixes.length} samples written`,
+    });
+  }, [viewedRun, validation]);
+
+  // Simulate a full-throttle launch of the configured vehicle. Its fixes are fed through the
+  // GPS pipeline, so a simulated run exercises exactly the same code as a real one.
+  const simulateSprint = useCallback(async () => {
+    if (isActive) return;
+
+    const vehicle = VEHICLE_PRESETS[settings.simulatorVehicle] ?? VEHICLE_PRESETS.sportsCar;
+    const gnss = GNSS_PRESETS[settings.simulatorGnss] ?? GNSS_PRESETS.receiver10;
+    const fixes = generateSimulatedFixes({ vehicle, gnss, seed: Date.now() });
+
+    simulatingRef.current = true;
+    setLocationProvider(new ReplayLocationProvider(fixes, {
+      onFinished: () => session.stop(),
+    }));
+
+    toast({
+      title: "Simulation Started",
+      description: `${vehicle.name} with ${gnss.name}`,
+    });
+
+    await startMeasurement();
+  }, [isActive, session, settings.simulatorVehicle, settings.simulatorGnss, setLocationProvider, startMeasurement]);
 
   // Compose UI status string with GPS metrics
   const uiStatus = (() => {
     let baseStatus = gpsStatus;
     
     // Show "Armed: waiting for movement" when appropriate
-    if (waitingForAcceleration && !isRunning) {
+    if (treePhase === 'preStaged') {
+      baseStatus = "Pre-staged: stop on the line";
+    } else if (dragMode && (treePhase === 'staged' || treePhase === 'countdown')) {
+      baseStatus = "Staged: watch the tree";
+    } else if (waitingForAcceleration) {
       baseStatus = "Armed: waiting for movement";
+    } else if (testMode === 'braking' && sessionPhase === 'armed' && entrySpeedReached) {
+      baseStatus = "Armed: waiting for brake onset";
     }
     
     // Append GPS metrics when available
-    const accuracyText = gpsAccuracy !== null ? `±${gpsAccuracy.toFixed(0)}m` : '±—m';
+    const accuracyText = gpsAccuracy !== null ? `±${formatDistance(gpsAccuracy, unitSystem, 0)}` : '±—';
     const hzText = gpsHz !== null ? `${gpsHz.toFixed(1)} Hz` : '— Hz';
     
-    return `${baseStatus} • GPS ${accuracyText} • ${hzText}`;
+    const satelliteText = gnssQuality
+      ? ` • ${gnssQuality.satellites ?? '—'}${gnssQuality.satellitesInView !== null ? `/${gnssQuality.satellitesInView}` : ''} sats` +
+        (gnssQuality.hdop !== null ? ` • HDOP ${gnssQuality.hdop.toFixed(1)}` : '')
+      : '';
+    
+    return `${baseStatus} • GPS ${accuracyText} • ${hzText}${satelliteText}`;
   })();
 
+  const toggleExternalReceiver = useCallback(async () => {
+    if (externalReceiverConnected) {
+      await disconnectExternalReceiver();
+      setGpsStatus('Using device GPS');
+      return;
+    }
+
+    if (await connectExternalReceiver(settings.receiverBaudRate)) {
+      toast({
+        title: "Receiver Connected",
+        description: "Fixes now come from the external GNSS receiver",
+      });
+    }
+  }, [externalReceiverConnected, connectExternalReceiver, disconnectExternalReceiver, settings.receiverBaudRate, setGpsStatus]);
+
+  // Rolling range timer: counts from the lower-bound crossing of the range currently being timed
+  const activeRange = useMemo(
+    () => isRunning && testMode === 'acceleration'
+      ? findActiveRange(activeMilestones, times, dataPoints, multiPassInterpolator.current)
+      : null,
+    [isRunning, testMode, activeMilestones, times, dataPoints]
+  );
+  const rollingElapsed = activeRange ? Math.max(0, elapsedTime - activeRange.start) : null;
+
+  // A reopened run is shown with the braking test it was recorded with
+  const displayBrakingTest = viewedRun?.brakingTest ?? brakingEntrySpeed;
+
+  // Switch between acceleration, drag and braking tests (only between runs)
+  const handleTestModeChange = useCallback((value: string) => {
+    setTestMode(value === 'drag' ? 'acceleration' : value as TestMode);
+    setDragMode(value === 'drag');
+    setHasResults(false);
+    setBrakingResult(null);
+    dragTree.reset();
+    setDragResult(null);
+  }, [dragTree]);
+
   return (
     <div className="min-h-screen bg-gradient-background p-4">
       <div className="max-w-md mx-auto space-y-6">
         {/* Header */}
         <div className="text-center space-y-2">
-          <div className="flex items-center justify-center gap-2 mb-4">
+          <div className="relative flex items-center justify-center gap-2 mb-4">
+            <div className="absolute left-0 flex">
+              <Button variant="ghost" size="icon" asChild aria-label="Run history">
+                <Link to="/history">
+                  <History className="w-5 h-5" />
+                </Link>
+              </Button>
+              <Button variant="ghost" size="icon" asChild aria-label="Lap timer">
+                <Link to="/laps">
+                  <Flag className="w-5 h-5" />
+                </Link>
+              </Button>
+            </div>
             <Zap className="w-8 h-8 text-primary" />
             <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
               SpeedSnap
             </h1>
+            <div className="absolute right-0 flex">
+              {isSerialSupported() && (
+                <Button
+                  variant={externalReceiverConnected ? "secondary" : "ghost"}
+                  size="icon"
+                  disabled={isActive}
+                  onClick={toggleExternalReceiver}
+                  aria-label={externalReceiverConnected ? "Disconnect external receiver" : "Connect external receiver"}
+                >
+                  <Satellite className="w-5 h-5" />
+                </Button>
+              )}
+              <SettingsSheet disabled={isActive} />
+            </div>
           </div>
           <p className="text-muted-foreground">Professional Acceleration Timer</p>
         </div>
@@ -679,7 +808,7 @@ const SpeedSnap: React.FC = () => {
               <div className="text-sm">
                 <strong>Poor GPS Signal</strong>
                 <p className="text-xs mt-1">
-                  GPS accuracy: ±{gpsAccuracy.toFixed(1)}m. For our target ±0.1s accuracy, 
+                  GPS accuracy: ±{formatDistance(gpsAccuracy, unitSystem)}. For our target ±0.1s accuracy, 
                   move to an open area with clear sky view.
                 </p>
               </div>
@@ -693,17 +822,70 @@ const SpeedSnap: React.FC = () => {
           elapsedTime={elapsedTime}
           status={uiStatus}
           isRunning={isRunning}
+          unitSystem={unitSystem}
+          intervalLabel={activeRange?.milestone.label}
+          intervalTime={rollingElapsed}
         />
 
+        {/* Vehicle-frame acceleration and mounting calibration */}
+        <GMeter
+          read={getVehicleAcceleration}
+          calibrationState={calibrationState}
+          onRecalibrate={recalibrate}
+          disabled={isActive}
+        />
+
+        {/* Test Mode Selection */}
+        <Tabs value={dragMode ? 'drag' : testMode} onValueChange={handleTestModeChange}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="acceleration" disabled={isActive}>Acceleration</TabsTrigger>
+            <TabsTrigger value="drag" disabled={isActive}>Drag</TabsTrigger>
+            <TabsTrigger value="braking" disabled={isActive}>Braking</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {/* Staging lights and reaction time */}
+        {dragMode && (
+          <DragTreeDisplay
+            phase={treePhase}
+            lights={treeLights}
+            tree={viewedRun?.drag?.tree ?? settings.dragTree}
+            result={dragResult}
+          />
+        )}
+
+        {/* Braking Entry Speed Selection */}
+        {testMode === 'braking' && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">Braking test</span>
+            <Select
+              value={String(brakingEntrySpeed)}
+              onValueChange={(value) => setBrakingEntrySpeed(Number(value))}
+              disabled={isActive}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRAKING_ENTRY_PRESETS[unitSystem].map(entrySpeed => (
+                  <SelectItem key={entrySpeed} value={String(entrySpeed)}>
+                    {formatBrakingTest(entrySpeed, unitSystem)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Control Buttons */}
         <div className="flex gap-3">
           <Button
-            onClick={(isRunning || waitingForAcceleration) ? stopMeasurement : startMeasurement}
-            variant={(isRunning || waitingForAcceleration) ? "destructive" : "default"}
+            onClick={isActive ? stopMeasurement : startMeasurement}
+            variant={isActive ? "destructive" : "default"}
             className="flex-1 h-12 text-lg font-semibold"
             disabled={gpsStatus.includes('❌') || gpsStatus.includes('Requesting')}
           >
-            {(isRunning || waitingForAcceleration) ? (
+            {isActive ? (
               <>
                 <Square className="w-5 h-5 mr-2" />
                 Stop
@@ -726,15 +908,41 @@ const SpeedSnap: React.FC = () => {
             <RotateCcw className="w-5 h-5" />
           </Button>
           
-          <Button
-            onClick={exportResults}
-            variant="outline"
-            size="lg"
-            className="h-12"
-            disabled={!hasResults}
-          >
-            <Download className="w-5 h-5" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="lg"
+                className="h-12"
+                disabled={!hasResults}
+                aria-label="Export"
+              >
+                <Download className="w-5 h-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={exportResults}>
+                <FileText className="w-4 h-4 mr-2" />
+                Results &amp; chart
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={exportTelemetry} disabled={!viewedRun}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Telemetry CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportTrack('gpx')} disabled={!viewedRun || viewedRun.rawFixes.length === 0}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Track GPX
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportTrack('kml')} disabled={!viewedRun || viewedRun.rawFixes.length === 0}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Track KML
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={exportVbo} disabled={!viewedRun || viewedRun.rawFixes.length === 0}>
+                <FileDown className="w-4 h-4 mr-2" />
+                VBOX (.vbo)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
 
         {/* Simulation Button */}
@@ -743,15 +951,47 @@ const SpeedSnap: React.FC = () => {
             onClick={simulateSprint}
             variant="secondary"
             className="w-full h-12 text-lg font-semibold"
-            disabled={isRunning || waitingForAcceleration}
+            disabled={isActive || testMode !== 'acceleration' || dragMode}
           >
             <TestTube className="w-5 h-5 mr-2" />
-            Test All Measurements
+            Simulate Run
           </Button>
         </div>
 
         {/* Results */}
-        <ResultsPanel times={times} hasResults={hasResults} isRunning={isRunning || waitingForAcceleration} />
+        <ResultsPanel
+          milestones={displayMilestones}
+          times={times}
+          uncertainties={uncertainties}
+          traps={traps}
+          validation={validation}
+          braking={testMode === 'braking' ? brakingResult : undefined}
+          brakingLabel={formatBrakingTest(displayBrakingTest, unitSystem)}
+          rolloutLabel={formatRollout(viewedRun ? viewedRun.rollout : rollout, unitSystem)}
+          unitSystem={unitSystem}
+          hasResults={hasResults}
+          isRunning={isActive}
+        />
+
+        {/* Reaction time kept apart from the elapsed times */}
+        {timeslip && !isActive && (
+          <DragTimeslip timeslip={timeslip} unitSystem={unitSystem} />
+        )}
+
+        {/* Live vs smoothed results */}
+        {viewedRun && smoothedRun && !isActive && (
+          <SmoothedResults run={viewedRun} smoothed={smoothedRun} uncertainties={smoothedUncertainties} unitSystem={unitSystem} />
+        )}
+
+        {/* Link to the averaged pair */}
+        {viewedRun?.pairedWith && !isActive && (
+          <Button variant="outline" className="w-full" asChild>
+            <Link to={`/two-way?ids=${viewedRun.id},${viewedRun.pairedWith}`}>
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              Two-Way Average
+            </Link>
+          </Button>
+        )}
 
         {/* Chart */}
         {dataPoints.length > 0 && (
@@ -759,7 +999,11 @@ const SpeedSnap: React.FC = () => {
             <SpeedChart 
               ref={chartRef}
               dataPoints={dataPoints} 
+              milestones={displayMilestones}
               times={times} 
+              uncertainties={uncertainties}
+              traps={traps}
+              unitSystem={unitSystem}
             />
           </Card>
         )}
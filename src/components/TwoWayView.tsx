@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, ArrowLeftRight, FolderOpen, Link2, Unlink } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useUnitSystem } from '../hooks/useSettings';
+import { StoredRun, getRun } from '../utils/RunStore';
+import { averageTwoWay, compassPoint, linkRuns, unlinkRuns } from '../utils/TwoWayRuns';
+import { formatRollout, haveSameRollout } from '../utils/Rollout';
+import { formatSpeed } from '../utils/Units';
+
+const runLabel = (index: number) => (index === 0 ? 'Run A' : 'Run B');
+
+const formatTime = (time: number | null): string => (time !== null ? `${time.toFixed(2)}s` : '—');
+
+// Slope and wind shift the two directions by the same amount either way
+const formatEffect = (effect: number): string => `±${Math.abs(effect).toFixed(2)}s`;
+
+export const TwoWayView: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const unitSystem = useUnitSystem();
+  const [runs, setRuns] = useState<[StoredRun, StoredRun] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const idsParam = searchParams.get('ids') ?? '';
+
+  useEffect(() => {
+    const ids = idsParam.split(',').filter(Boolean).slice(0, 2);
+
+    Promise.all(ids.map(id => getRun(id)))
+      .then(loaded => {
+        const found = loaded.filter((run): run is StoredRun => run !== null);
+        setRuns(found.length === 2 ? [found[0], found[1]] : null);
+      })
+      .catch(error => console.error('Failed to load two-way runs:', error))
+      .finally(() => setIsLoading(false));
+  }, [idsParam]);
+
+  const result = useMemo(() => (runs ? averageTwoWay(runs[0], runs[1]) : null), [runs]);
+  const isLinked = runs !== null && runs[0].pairedWith === runs[1].id && runs[1].pairedWith === runs[0].id;
+
+  const toggleLink = useCallback(async () => {
+    if (!runs) return;
+    try {
+      setRuns(isLinked ? await unlinkRuns(runs[0], runs[1]) : await linkRuns(runs[0], runs[1]));
+      toast({
+        title: isLinked ? "Runs Unlinked" : "Runs Linked",
+        description: isLinked ? "The runs are no longer a two-way pair" : "The runs are stored as a two-way pair",
+      });
+    } catch (error) {
+      console.error('Failed to update two-way pair:', error);
+      toast({
+        title: "Pair Not Saved",
+        description: "Could not write the runs to local storage",
+        variant: "destructive",
+      });
+    }
+  }, [runs, isLinked]);
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative flex items-center justify-center gap-2">
+          <div className="absolute left-0">
+            <Button variant="ghost" size="icon" asChild aria-label="Back to history">
+              <Link to="/history">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+          </div>
+          <ArrowLeftRight className="w-6 h-6 text-primary" />
+          <h1 className="text-2xl font-bold">Two-Way Average</h1>
+        </div>
+
+        {isLoading && (
+          <p className="text-center text-muted-foreground">Loading runs...</p>
+        )}
+
+        {!isLoading && !result && (
+          <Card className="p-6 text-center text-muted-foreground">
+            Both runs of the pair are needed. One of them may have been deleted.
+          </Card>
+        )}
+
+        {result && (
+          <>
+            {/* The two runs */}
+            <Card className="p-4 space-y-3">
+              {result.runs.map((run, index) => {
+                const course = result.courses[index];
+                const slope = result.slopes[index];
+                return (
+                  <div key={run.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div>
+                      <div className="font-semibold">
+                        {runLabel(index)}
+                        {course && <span className="text-muted-foreground"> · {compassPoint(course.heading)} {course.heading.toFixed(0)}°</span>}
+                        {slope !== null && <span className="text-muted-foreground"> · {slope >= 0 ? '+' : ''}{slope.toFixed(1)}%</span>}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {new Date(run.createdAt).toLocaleString()} · {formatRollout(run.rollout, unitSystem)}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="icon" asChild aria-label={`Open ${runLabel(index)}`}>
+                      <Link to={`/?run=${run.id}`}>
+                        <FolderOpen className="w-4 h-4" />
+                      </Link>
+                    </Button>
+                  </div>
+                );
+              })}
+
+              {!result.opposite && (
+                <div className="flex items-center gap-2 text-sm text-warning">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  These runs do not look like opposite directions over the same stretch, so the
+                  average may not cancel slope and wind.
+                </div>
+              )}
+
+              {!haveSameRollout(result.runs) && (
+                <div className="flex items-center gap-2 text-sm text-warning">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  The runs were timed with different rollouts, so the average mixes two conventions.
+                </div>
+              )}
+
+              <Button variant="outline" className="w-full" onClick={toggleLink}>
+                {isLinked ? <Unlink className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+                {isLinked ? 'Unlink Pair' : 'Link as Pair'}
+              </Button>
+            </Card>
+
+            {/* Averaged milestones */}
+            <Card className="p-4">
+              <h3 className="text-lg font-bold mb-2">Corrected Results</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Target</TableHead>
+                    <TableHead className="text-right">A</TableHead>
+                    <TableHead className="text-right">B</TableHead>
+                    <TableHead className="text-right">Average</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.milestones.map(row => (
+                    <TableRow key={row.milestone.id}>
+                      <TableCell className="font-semibold">{row.milestone.label}</TableCell>
+                      <TableCell className="text-right">{formatTime(row.times[0])}</TableCell>
+                      <TableCell className="text-right">{formatTime(row.times[1])}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="font-bold text-primary">{formatTime(row.average)}</div>
+                        {row.directionEffect !== null && (
+                          <div className="text-xs text-muted-foreground">{formatEffect(row.directionEffect)}</div>
+                        )}
+                        {row.averageTrapSpeed !== null && (
+                          <div className="text-xs text-muted-foreground">{formatSpeed(row.averageTrapSpeed, unitSystem, 1)}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-2">
+                Slope and a steady wind help one direction as much as they hold back the other, so
+                the average of the two runs cancels them. The ± figure is how much they changed each
+                run; trap speeds are averaged the same way.
+              </p>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
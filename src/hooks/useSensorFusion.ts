@@ -1,55 +1,178 @@
-import { useRef, useEffect, useCallback } from 'react';
-import { ExtendedKalmanFilter } from '../utils/ExtendedKalmanFilter';
+import { useRef, useEffect, useCallback, useState } from 'react';
+import { CALIBRATED_ACCEL_NOISE, SpeedKalmanFilter } from '../utils/SpeedKalmanFilter';
 import { Motion } from '@capacitor/motion';
 import { toast } from '@/hooks/use-toast';
+import { AccelerometerSample } from '../utils/BrakingAnalysis';
+import { CalibrationState, MountingCalibration, Vector3, VehicleAcceleration } from '../utils/MountingCalibration';
 
-interface AccelerometerData {
-  x: number;
-  y: number;
-  z: number;
+// Generic Sensor API (LinearAccelerometer, GravitySensor), not yet part of the TypeScript DOM library
+interface MotionSensor extends EventTarget {
+  x?: number | null;
+  y?: number | null;
+  z?: number | null;
+  start(): void;
+  stop(): void;
 }
 
+type MotionSensorConstructor = new (options: { frequency: number }) => MotionSensor;
+
+const getSensorConstructor = (name: string): MotionSensorConstructor | undefined =>
+  (window as unknown as Record<string, MotionSensorConstructor | undefined>)[name];
+
 interface UseSensorFusionProps {
   onAccelerationDetected: () => void;
   waitingForAcceleration: boolean;
   accelerationThreshold: number;
+  onBrakingDetected?: () => void;
+  brakingThreshold?: number;
+  now?: () => number; // clock the fusion filter runs on, in milliseconds; the location clock
+  onFusedSpeed?: (time: number, speed: number) => void; // km/h at the accelerometer rate
 }
 
+// Standing-still noise on the acceleration magnitude, treated as no acceleration
+const ACCEL_DEADBAND = 0.5; // m/s²
+// The magnitude only approximates the longitudinal component, so it is trusted loosely
+const ACCEL_MAGNITUDE_NOISE = 1.0; // m/s²
+// GPS-confirmed acceleration needed before readings teach the calibration the forward axis
+const CALIBRATION_MIN_ACCELERATION = 1.0; // m/s²
+// Launches are detected above this acceleration
+const LAUNCH_THRESHOLD = 2.5; // m/s²
+
+const magnitudeOf = ({ x, y, z }: Vector3): number => Math.sqrt(x * x + y * y + z * z);
+
 export const useSensorFusion = ({ 
   onAccelerationDetected, 
   waitingForAcceleration,
-  accelerationThreshold = 0.5 
+  accelerationThreshold = 0.5,
+  onBrakingDetected,
+  brakingThreshold = 3.0,
+  now = () => performance.now(),
+  onFusedSpeed
 }: UseSensorFusionProps) => {
-  const ekfRef = useRef<ExtendedKalmanFilter | null>(null);
-  const accelerometerRef = useRef<AccelerometerData>({ x: 0, y: 0, z: 0 });
+  const filterRef = useRef<SpeedKalmanFilter | null>(null);
+  const accelerometerRef = useRef<Vector3>({ x: 0, y: 0, z: 0 });
+  const calibrationRef = useRef(new MountingCalibration());
+  const [calibrationState, setCalibrationState] = useState<CalibrationState>('uncalibrated');
+  const vehicleAccelerationRef = useRef<VehicleAcceleration | null>(null);
+  // Latest GPS speed (m/s) and the acceleration between the last two fixes, for calibration
+  const gpsMotionRef = useRef<{ speed: number; acceleration: number; time: number } | null>(null);
+  const lastReadingTimeRef = useRef<number | null>(null);
   const waitingForAccelerationRef = useRef<boolean>(false);
+  const waitingForBrakingRef = useRef<boolean>(false);
+  const accelerometerLogRef = useRef<AccelerometerSample[]>([]);
+  const logStartRef = useRef<number | null>(null);
+  // Sensor listeners are registered once, so they read the latest clock and callback through refs
+  const nowRef = useRef(now);
+  nowRef.current = now;
+  const onFusedSpeedRef = useRef(onFusedSpeed);
+  onFusedSpeedRef.current = onFusedSpeed;
 
   // Initialize sensors and permissions
   useEffect(() => {
     waitingForAccelerationRef.current = waitingForAcceleration;
   }, [waitingForAcceleration]);
 
+  // Record the latest reading, refine the mounting calibration and check for brake onset
+  // (shared by every sensor source). Readings are in the device frame without gravity.
+  const processReading = useCallback((linear: Vector3, includingGravity: Vector3 | null) => {
+    accelerometerRef.current = linear;
+    const { x, y, z } = linear;
+
+    // Standstills level the calibration, GPS-confirmed acceleration finds the forward axis
+    const calibration = calibrationRef.current;
+    const readingTime = performance.now();
+    const interval = lastReadingTimeRef.current !== null ? (readingTime - lastReadingTimeRef.current) / 1000 : 0;
+    lastReadingTimeRef.current = readingTime;
+    const gps = gpsMotionRef.current;
+    if (gps && gps.speed === 0 && includingGravity) {
+      calibration.addStationarySample(includingGravity);
+    } else if (gps && gps.speed > 0 && gps.acceleration >= CALIBRATION_MIN_ACCELERATION) {
+      calibration.addAccelerationSample(linear, gps.speed * interval);
+    }
+    setCalibrationState(calibration.state);
+
+    const vehicle = calibration.toVehicleFrame(linear);
+    vehicleAccelerationRef.current = vehicle;
+
+    // Logged on the fusion clock, the one the speed trace is timed on, so replays line up
+    if (logStartRef.current !== null) {
+      accelerometerLogRef.current.push({
+        time: (nowRef.current() - logStartRef.current) / 1000,
+        x,
+        y,
+        z,
+        ...vehicle,
+      });
+    }
+
+    if (waitingForBrakingRef.current && onBrakingDetected) {
+      const deceleration = vehicle ? -vehicle.longitudinal : calibration.horizontalMagnitude(linear) ?? magnitudeOf(linear);
+      if (deceleration > brakingThreshold) {
+        console.log('🛑 Brake onset detected:', { deceleration, threshold: brakingThreshold });
+        waitingForBrakingRef.current = false;
+        accelerometerLogRef.current = [];
+        logStartRef.current = nowRef.current();
+        onBrakingDetected();
+      }
+    }
+
+    // Between GPS fixes the accelerometer carries the speed estimate forward
+    const filter = filterRef.current;
+    if (filter?.initialized) {
+      const time = nowRef.current();
+      if (filter.predictTo(time)) {
+        if (vehicle) {
+          filter.updateAcceleration(vehicle.longitudinal, CALIBRATED_ACCEL_NOISE);
+        } else {
+          // Until the mounting is known the magnitude stands in for the longitudinal component,
+          // signed by the direction the filter already believes the vehicle is accelerating in
+          const magnitude = magnitudeOf(linear);
+          const longitudinal = magnitude < ACCEL_DEADBAND ? 0 : magnitude * (filter.acceleration < 0 ? -1 : 1);
+          filter.updateAcceleration(longitudinal, ACCEL_MAGNITUDE_NOISE);
+        }
+        onFusedSpeedRef.current?.(time, filter.speed * 3.6);
+      }
+    }
+  }, [onBrakingDetected, brakingThreshold]);
+
+  // Acceleration compared with the launch threshold: forward acceleration once calibrated,
+  // acceleration in the road plane once levelled, the raw magnitude before that
+  const getLaunchAcceleration = useCallback((): number => {
+    const linear = accelerometerRef.current;
+    const vehicle = vehicleAccelerationRef.current;
+    if (vehicle) return vehicle.longitudinal;
+    return calibrationRef.current.horizontalMagnitude(linear) ?? magnitudeOf(linear);
+  }, []);
+
   const initializeSensors = useCallback(async () => {
     try {
       // Try LinearAccelerometer first (excludes gravity)
-      if ('LinearAccelerometer' in window) {
+      const LinearAccelerometer = getSensorConstructor('LinearAccelerometer');
+      if (LinearAccelerometer) {
         try {
-          const linearAccel = new (window as any).LinearAccelerometer({ frequency: 50 });
+          const linearAccel = new LinearAccelerometer({ frequency: 50 });
+          // Gravity for the mounting calibration comes from the companion sensor, where there is one
+          const GravitySensor = getSensorConstructor('GravitySensor');
+          const gravitySensor = GravitySensor ? new GravitySensor({ frequency: 50 }) : null;
+          gravitySensor?.start();
+
           linearAccel.addEventListener('reading', () => {
-            accelerometerRef.current = {
+            const linear = {
               x: linearAccel.x || 0,
               y: linearAccel.y || 0,
               z: linearAccel.z || 0,
             };
+            const includingGravity = gravitySensor && gravitySensor.x != null
+              ? { x: linear.x + gravitySensor.x, y: linear.y + (gravitySensor.y || 0), z: linear.z + (gravitySensor.z || 0) }
+              : null;
+            processReading(linear, includingGravity);
             
             // Only check acceleration if START button was pressed AND we're waiting for acceleration
             if (waitingForAccelerationRef.current) {
-              const { x, y, z } = accelerometerRef.current;
-              const magnitude = Math.sqrt(x * x + y * y + z * z);
-              console.log('🏃 LinearAccelerometer reading:', { x, y, z, magnitude, threshold: accelerationThreshold });
+              const magnitude = getLaunchAcceleration();
+              console.log('🏃 LinearAccelerometer reading:', { ...linear, magnitude, threshold: accelerationThreshold });
               
-              // Higher threshold for LinearAccelerometer since gravity is removed
-              if (magnitude > 2.5) {
+              if (magnitude > LAUNCH_THRESHOLD) {
                 console.log('🚀 Linear acceleration threshold exceeded! Triggering measurement start');
                 waitingForAccelerationRef.current = false;
                 onAccelerationDetected();
@@ -67,6 +190,7 @@ export const useSensorFusion = ({
           
           return () => {
             linearAccel.stop();
+            gravitySensor?.stop();
           };
         } catch (error) {
           console.log('❌ LinearAccelerometer failed, falling back to regular accelerometer');
@@ -77,21 +201,20 @@ export const useSensorFusion = ({
       // Fallback to Capacitor Motion or regular accelerometer
       try {
         const motionListener = await Motion.addListener('accel', (event) => {
-          // Subtract gravity approximation from Z-axis for regular accelerometer
-          accelerometerRef.current = {
-            x: event.acceleration.x,
-            y: event.acceleration.y,
-            z: event.acceleration.z - 9.8, // Remove gravity
-          };
+          // The platform separates gravity; the reading including it levels the calibration
+          processReading(
+            { x: event.acceleration.x, y: event.acceleration.y, z: event.acceleration.z },
+            event.accelerationIncludingGravity
+              ? { x: event.accelerationIncludingGravity.x, y: event.accelerationIncludingGravity.y, z: event.accelerationIncludingGravity.z }
+              : null
+          );
           
           // Only check acceleration if START button was pressed AND we're waiting for acceleration
           if (waitingForAccelerationRef.current) {
-            const { x, y, z } = accelerometerRef.current;
-            const magnitude = Math.sqrt(x * x + y * y + z * z);
-            console.log('🏃 Capacitor accelerometer reading (gravity removed):', { x, y, z, magnitude, threshold: accelerationThreshold });
+            const magnitude = getLaunchAcceleration();
+            console.log('🏃 Capacitor accelerometer reading:', { ...accelerometerRef.current, magnitude, threshold: accelerationThreshold });
             
-            // Higher threshold since we're removing gravity
-            if (magnitude > 2.5) {
+            if (magnitude > LAUNCH_THRESHOLD) {
               console.log('🚀 Acceleration threshold exceeded! Triggering measurement start');
               waitingForAccelerationRef.current = false;
               onAccelerationDetected();
@@ -112,21 +235,24 @@ export const useSensorFusion = ({
         if ('DeviceMotionEvent' in window) {
           const handleDeviceMotion = (event: DeviceMotionEvent) => {
             if (event.acceleration) {
-              // Subtract gravity approximation from Z-axis for browser accelerometer
-              accelerometerRef.current = {
-                x: event.acceleration.x || 0,
-                y: event.acceleration.y || 0,
-                z: (event.acceleration.z || 0) - 9.8, // Remove gravity
-              };
+              const includingGravity = event.accelerationIncludingGravity;
+              processReading(
+                {
+                  x: event.acceleration.x || 0,
+                  y: event.acceleration.y || 0,
+                  z: event.acceleration.z || 0,
+                },
+                includingGravity && includingGravity.x !== null
+                  ? { x: includingGravity.x, y: includingGravity.y || 0, z: includingGravity.z || 0 }
+                  : null
+              );
               
               // Only check acceleration if START button was pressed AND we're waiting for acceleration
               if (waitingForAccelerationRef.current) {
-                const { x, y, z } = accelerometerRef.current;
-                const magnitude = Math.sqrt(x * x + y * y + z * z);
-                console.log('🏃 Browser accelerometer reading (gravity removed):', { x, y, z, magnitude });
+                const magnitude = getLaunchAcceleration();
+                console.log('🏃 Browser accelerometer reading:', { ...accelerometerRef.current, magnitude });
                 
-                // Higher threshold since gravity is removed
-                if (magnitude > 2.5) {
+                if (magnitude > LAUNCH_THRESHOLD) {
                   waitingForAccelerationRef.current = false;
                   onAccelerationDetected();
                   
@@ -154,26 +280,61 @@ export const useSensorFusion = ({
         variant: "destructive",
       });
     }
-  }, [onAccelerationDetected, accelerationThreshold]);
+  }, [onAccelerationDetected, accelerationThreshold, processReading, getLaunchAcceleration]);
 
   const initializeKalmanFilter = useCallback(() => {
-    ekfRef.current = new ExtendedKalmanFilter();
+    filterRef.current = new SpeedKalmanFilter();
   }, []);
 
-  const updateKalmanFilter = useCallback((speedKmh: number, accelMagnitude: number, dt: number) => {
-    if (!ekfRef.current) return speedKmh;
-    
-    ekfRef.current.predict(dt);
-    return ekfRef.current.update([speedKmh, accelMagnitude]);
+  // Correct the filter with a GPS speed (km/h) handled at the given clock time; returns the fused speed
+  const updateKalmanFilter = useCallback((speedKmh: number, accuracy: number | null, time: number) => {
+    // The calibration learns from how GPS says the vehicle is moving
+    const speed = speedKmh / 3.6;
+    const previous = gpsMotionRef.current;
+    const dt = previous ? (time - previous.time) / 1000 : 0;
+    gpsMotionRef.current = { speed, time, acceleration: previous && dt > 0 ? (speed - previous.speed) / dt : 0 };
+
+    if (!filterRef.current) return speedKmh;
+
+    filterRef.current.predictTo(time);
+    filterRef.current.updateSpeed(speedKmh / 3.6, accuracy);
+    return filterRef.current.speed * 3.6;
   }, []);
 
   const getAccelerometerData = useCallback(() => {
     return accelerometerRef.current;
   }, []);
 
+  // Vehicle-frame acceleration of the latest reading, null until the mounting is calibrated
+  const getVehicleAcceleration = useCallback((): VehicleAcceleration | null => {
+    return vehicleAccelerationRef.current;
+  }, []);
+
+  // Forget the mounting, e.g. after moving the phone in its holder
+  const recalibrate = useCallback(() => {
+    calibrationRef.current.reset();
+    vehicleAccelerationRef.current = null;
+    setCalibrationState('uncalibrated');
+  }, []);
+
+  // Start logging accelerometer samples, timed in seconds from the given clock time (now by default)
+  const startAccelerometerLog = useCallback((start?: number) => {
+    accelerometerLogRef.current = [];
+    logStartRef.current = start ?? nowRef.current();
+  }, []);
+
+  // Stop logging and hand back the recorded samples
+  const stopAccelerometerLog = useCallback((): AccelerometerSample[] => {
+    logStartRef.current = null;
+    return accelerometerLogRef.current;
+  }, []);
+
   const resetSensorFusion = useCallback(() => {
     waitingForAccelerationRef.current = false;
-    ekfRef.current = new ExtendedKalmanFilter();
+    waitingForBrakingRef.current = false;
+    logStartRef.current = null;
+    accelerometerLogRef.current = [];
+    filterRef.current = new SpeedKalmanFilter();
   }, []);
 
   return {
@@ -181,7 +342,13 @@ export const useSensorFusion = ({
     initializeKalmanFilter,
     updateKalmanFilter,
     getAccelerometerData,
+    getVehicleAcceleration,
+    calibrationState,
+    recalibrate,
     resetSensorFusion,
-    waitingForAccelerationRef
+    startAccelerometerLog,
+    stopAccelerometerLog,
+    waitingForAccelerationRef,
+    waitingForBrakingRef
   };
 };
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Milestone, getDefaultMilestones } from '../utils/Milestones';
+import { UnitSystem } from '../utils/Units';
+import { TreeType } from '../utils/DragTree';
+import { RolloutOption } from '../utils/Rollout';
+import { StartFinishLine } from '../utils/LapTimer';
+
+export interface SpeedSnapSettings {
+  unitSystem: UnitSystem;
+  customMilestones: Milestone[];
+  disabledMilestones: string[];
+  receiverBaudRate: number; // serial speed for external NMEA receivers
+  simulatorVehicle: string; // key into VEHICLE_PRESETS
+  simulatorGnss: string;    // key into GNSS_PRESETS
+  vehicleName: string;      // recorded with each run, printed on timeslips
+  dragTree: TreeType;
+  rollout: RolloutOption;
+  customRollout: number;    // metres, used when rollout is 'custom'
+  lapLine: StartFinishLine | null; // start/finish line of the circuit for lap timing
+}
+
+const STORAGE_KEY = 'speedsnap-settings';
+
+const DEFAULT_SETTINGS: SpeedSnapSettings = {
+  unitSystem: 'metric',
+  customMilestones: [],
+  disabledMilestones: [],
+  receiverBaudRate: 115200,
+  simulatorVehicle: 'sportsCar',
+  simulatorGnss: 'receiver10',
+  vehicleName: '',
+  dragTree: 'sportsman',
+  rollout: 'none',
+  customRollout: 0.3,
+  lapLine: null,
+};
+
+const loadSettings = (): SpeedSnapSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Settings live in a module-level store so every screen sees the same values
+let currentSettings = loadSettings();
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => currentSettings;
+
+export const useSettings = () => {
+  const settings = useSyncExternalStore(subscribe, getSnapshot);
+
+  const updateSettings = useCallback((changes: Partial<SpeedSnapSettings>) => {
+    currentSettings = { ...currentSettings, ...changes };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSettings));
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+    listeners.forEach(listener => listener());
+  }, []);
+
+  return { settings, updateSettings };
+};
+
+// Built-in milestones for the chosen unit system plus user-defined ones, minus those switched off
+export const useMilestones = (): Milestone[] => {
+  const { settings } = useSettings();
+
+  return useMemo(
+    () => [...getDefaultMilestones(settings.unitSystem), ...settings.customMilestones]
+      .filter(m => !settings.disabledMilestones.includes(m.id)),
+    [settings.unitSystem, settings.customMilestones, settings.disabledMilestones]
+  );
+};
+
+export const useUnitSystem = (): UnitSystem => useSettings().settings.unitSystem;
@@ -0,0 +1,7 @@
+import { RunComparisonView } from '@/components/RunComparisonView';
+
+const Compare = () => {
+  return <RunComparisonView />;
+};
+
+export default Compare;
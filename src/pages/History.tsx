@@ -0,0 +1,7 @@
+import { RunHistory } from '@/components/RunHistory';
+
+const History = () => {
+  return <RunHistory />;
+};
+
+export default History;
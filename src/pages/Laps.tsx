@@ -0,0 +1,7 @@
+import { LapTimerView } from '@/components/LapTimerView';
+
+const Laps = () => {
+  return <LapTimerView />;
+};
+
+export default Laps;
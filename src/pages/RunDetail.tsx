@@ -0,0 +1,7 @@
+import { RunReplay } from '@/components/RunReplay';
+
+const RunDetail = () => {
+  return <RunReplay />;
+};
+
+export default RunDetail;
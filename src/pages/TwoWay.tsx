@@ -0,0 +1,7 @@
+import { TwoWayView } from '@/components/TwoWayView';
+
+const TwoWay = () => {
+  return <TwoWayView />;
+};
+
+export default TwoWay;
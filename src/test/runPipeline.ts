@@ -0,0 +1,62 @@
+// Test helper: drives a location provider through a measurement session, as the app does
+
+import { vi } from 'vitest';
+import { FixPipeline, SpeedFusion } from '@/utils/FixPipeline';
+import { LocationProvider } from '@/utils/LocationProvider';
+import { MeasurementSession } from '@/utils/MeasurementSession';
+import { Milestone } from '@/utils/Milestones';
+import { StoredRun } from '@/utils/RunStore';
+import { SpeedKalmanFilter } from '@/utils/SpeedKalmanFilter';
+
+/**
+ * Plays every fix of a provider through the live fix pipeline into an armed acceleration
+ * session on fake timers and returns the run as the app would store it. The fusion filter
+ * is corrected by GPS alone, as it is on a device without motion sensors.
+ */
+export const runPipeline = async (provider: LocationProvider, milestones: Milestone[]): Promise<StoredRun> => {
+  vi.useFakeTimers();
+  try {
+    const session = new MeasurementSession(() => provider.now());
+    const pipeline = new FixPipeline();
+    const filter = new SpeedKalmanFilter();
+    const fuse: SpeedFusion = (speedKmh, accuracy, clock) => {
+      filter.predictTo(clock);
+      filter.updateSpeed(speedKmh / 3.6, accuracy);
+      return filter.speed * 3.6;
+    };
+    session.arm({ mode: 'acceleration', milestones, brakingEntrySpeed: 0 });
+
+    provider.start(position => {
+      const { fix } = pipeline.handlePosition(position, provider.now(), session.timerStart, fuse);
+      if (fix) session.pushFix(fix);
+      if (session.phase === 'finished') provider.stop();
+    }, error => {
+      throw new Error(error.message);
+    });
+    await vi.runAllTimersAsync();
+
+    session.stop();
+    const result = session.process();
+    if (!result) throw new Error('The session recorded no run');
+    const rawFixes = pipeline.getRawFixes();
+
+    return {
+      id: 'test-run',
+      createdAt: rawFixes[0]?.timestamp ?? 0,
+      mode: result.mode,
+      unitSystem: 'metric',
+      milestones: result.milestones,
+      times: result.times,
+      rollout: result.rollout,
+      braking: result.braking,
+      brakingTest: result.brakingEntrySpeed,
+      distance: result.distance,
+      dataPoints: result.dataPoints,
+      rawFixes,
+      accelerometer: result.accelerometer,
+      device: { platform: 'test', userAgent: '' },
+    };
+  } finally {
+    vi.useRealTimers();
+  }
+};
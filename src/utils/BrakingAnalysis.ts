@@ -0,0 +1,119 @@
+import { DataPoint } from './DataProcessing';
+import { UnitSystem, KMH_PER_MPH, speedUnit, toDisplaySpeed } from './Units';
+
+export const STANDARD_GRAVITY = 9.80665; // m/s²
+
+export interface AccelerometerSample {
+  time: number; // seconds, same time base as the speed trace
+  x: number;    // device frame, m/s², gravity excluded
+  y: number;
+  z: number;
+  // Vehicle frame, m/s², once the phone mounting has been calibrated
+  longitudinal?: number;
+  lateral?: number;
+  vertical?: number;
+}
+
+export interface BrakingResult {
+  entrySpeed: number;       // km/h at brake onset
+  stoppingDistance: number; // metres from brake onset to standstill
+  stoppingTime: number;     // seconds from brake onset to standstill
+  meanDecelG: number;       // average deceleration over the stop, in g
+  peakDecelG: number;       // highest smoothed deceleration during the stop, in g
+}
+
+// Entry speeds in km/h: 100-0 and 60-0 km/h, or 60-0 and 30-0 mph
+export const BRAKING_ENTRY_PRESETS: Record<UnitSystem, number[]> = {
+  metric: [100, 60],
+  imperial: [60 * KMH_PER_MPH, 30 * KMH_PER_MPH],
+};
+
+export const formatBrakingTest = (entrySpeed: number, system: UnitSystem = 'metric'): string =>
+  `${toDisplaySpeed(entrySpeed, system).toFixed(0)}-0 ${speedUnit(system)}`;
+
+/**
+ * Finds the moment the speed trace reaches zero. GPS speeds below the noise floor are
+ * reported as 0, so the last decelerating segment is extrapolated to zero and clamped
+ * between the last moving sample and the first stationary one.
+ */
+const findStopTime = (points: DataPoint[]): number | null => {
+  const stopIndex = points.findIndex((p, i) => i > 0 && p.speed <= 0);
+  if (stopIndex === -1) return null;
+
+  const stopped = points[stopIndex];
+  const last = points[stopIndex - 1];
+  const before = stopIndex >= 2 ? points[stopIndex - 2] : null;
+
+  if (!before || before.speed <= last.speed) return stopped.time;
+
+  const slope = (last.speed - before.speed) / (last.time - before.time);
+  const extrapolated = last.time - last.speed / slope;
+  return Math.min(stopped.time, Math.max(last.time, extrapolated));
+};
+
+/**
+ * Smooths deceleration over a short moving window so single-sample spikes from road
+ * bumps do not register as peak deceleration. Calibrated samples use the longitudinal
+ * axis; otherwise the magnitude stands in for it.
+ */
+const smoothedMagnitudes = (samples: AccelerometerSample[], window: number = 5): number[] => {
+  const calibrated = samples.every(s => s.longitudinal !== undefined);
+  const magnitudes = samples.map(({ x, y, z, longitudinal }) =>
+    calibrated ? -longitudinal : Math.sqrt(x * x + y * y + z * z));
+  return magnitudes.map((_, i) => {
+    const slice = magnitudes.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((sum, m) => sum + m, 0) / slice.length;
+  });
+};
+
+/**
+ * Computes stopping distance, stopping time and deceleration from a braking run.
+ * The speed trace is timed from brake onset (t = 0) and starts at the entry speed;
+ * distance is integrated with the trapezoidal rule up to the interpolated stop.
+ */
+export const analyzeBraking = (
+  points: DataPoint[],
+  accelerometer: AccelerometerSample[] = []
+): BrakingResult | null => {
+  if (points.length < 2) return null;
+
+  const stopTime = findStopTime(points);
+  if (stopTime === null || stopTime <= 0) return null;
+
+  const entrySpeed = points[0].speed;
+  let distance = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (prev.time >= stopTime) break;
+
+    // Clip the final segment at the interpolated stop
+    const endTime = Math.min(next.time, stopTime);
+    const endSpeed = next.time > stopTime ? 0 : next.speed;
+    distance += ((prev.speed + endSpeed) / 2 / 3.6) * (endTime - prev.time);
+  }
+
+  const meanDecel = (entrySpeed / 3.6) / stopTime;
+
+  // Peak deceleration from the accelerometer if available, otherwise from the speed trace
+  const duringStop = accelerometer.filter(s => s.time >= 0 && s.time <= stopTime);
+  let peakDecel = 0;
+  if (duringStop.length > 0) {
+    peakDecel = Math.max(...smoothedMagnitudes(duringStop));
+  } else {
+    for (let i = 1; i < points.length && points[i - 1].time < stopTime; i++) {
+      const dt = points[i].time - points[i - 1].time;
+      if (dt <= 0) continue;
+      peakDecel = Math.max(peakDecel, (points[i - 1].speed - points[i].speed) / 3.6 / dt);
+    }
+  }
+
+  return {
+    entrySpeed,
+    stoppingDistance: distance,
+    stoppingTime: stopTime,
+    meanDecelG: meanDecel / STANDARD_GRAVITY,
+    peakDecelG: Math.max(peakDecel, meanDecel) / STANDARD_GRAVITY,
+  };
+};
@@ -0,0 +1,16 @@
+// Browser download of generated files
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** File name stem for a run, e.g. speedsnap-2024-05-01T10-15-00 */
+export const getRunFileStem = (createdAt: number): string =>
+  `speedsnap-${new Date(createdAt).toISOString().slice(0, 19).replace(/:/g, '-')}`;
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DragTree } from './DragTree';
+import { FixPipeline, NOISE_FLOOR } from './FixPipeline';
+import { GnssPosition } from './LocationProvider';
+
+const START = 1_700_000_000_000;
+
+// Slow enough to be floored to standstill by the fix pipeline
+const CREEP = (NOISE_FLOOR - 1) / 3.6;
+
+const position = (speed: number): GnssPosition => ({
+  coords: {
+    latitude: 51.5,
+    longitude: -0.12,
+    altitude: null,
+    accuracy: 3,
+    altitudeAccuracy: null,
+    speed,
+    heading: 0,
+  },
+  timestamp: Date.now(),
+});
+
+describe('DragTree', () => {
+  let pipeline: FixPipeline;
+  let tree: DragTree;
+
+  // Plays one fix per 100 ms at a speed (m/s) through the live pipeline into the tree
+  const drive = (speed: number, duration: number) => {
+    for (let t = 0; t < duration; t += 100) {
+      const { fix } = pipeline.handlePosition(position(speed), Date.now(), null, kmh => kmh);
+      if (fix) tree.pushFix(fix);
+      vi.advanceTimersByTime(100);
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pipeline = new FixPipeline();
+    // The starter always takes the shortest delay: green 2.1 s after staging
+    tree = new DragTree(() => Date.now(), () => 0);
+    tree.preStage('sportsman');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does not stage a vehicle still rolling below the noise floor', () => {
+    drive(CREEP, 3000);
+    expect(tree.phase).toBe('preStaged');
+  });
+
+  it('stages once the vehicle has stopped for a second', () => {
+    drive(CREEP, 1000);
+    drive(0, 1100);
+    expect(tree.phase).toBe('staged');
+  });
+
+  it('raises a red light when the vehicle creeps before the green', () => {
+    drive(CREEP, 1000);
+    drive(0, 1100);
+    drive(CREEP, 200);
+
+    expect(tree.phase).toBe('red');
+    expect(tree.getResult()).toMatchObject({ tree: 'sportsman', redLight: true });
+    expect(tree.getResult().reactionTime).toBeLessThan(0);
+  });
+
+  it('times the reaction of a launch after the green', () => {
+    drive(0, 1100);
+    drive(0, 2500);
+    expect(tree.phase).toBe('green');
+
+    tree.move();
+    expect(tree.getResult()).toMatchObject({ redLight: false });
+    expect(tree.getResult().reactionTime).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,199 @@
+// Drag-strip start: staging, Christmas-tree countdown, reaction time and red lights
+
+export type TreeType = 'sportsman' | 'pro';
+
+/**
+ * idle → preStaged (rolling up to the line) → staged (stopped on the line)
+ *      → countdown (ambers) → green, or red on movement before the green
+ */
+export type TreePhase = 'idle' | 'preStaged' | 'staged' | 'countdown' | 'green' | 'red';
+
+export type TreeLight = 'amber1' | 'amber2' | 'amber3' | 'green' | 'red';
+
+export interface TreePreset {
+  name: string;
+  // When each light comes on, in seconds from the start of the countdown
+  schedule: { light: TreeLight; at: number }[];
+}
+
+export const TREE_PRESETS: Record<TreeType, TreePreset> = {
+  // Full tree: ambers top to bottom 0.5 s apart, green 0.5 s after the last
+  sportsman: {
+    name: 'Sportsman (0.5s full tree)',
+    schedule: [
+      { light: 'amber1', at: 0 },
+      { light: 'amber2', at: 0.5 },
+      { light: 'amber3', at: 1.0 },
+      { light: 'green', at: 1.5 },
+    ],
+  },
+  // All three ambers together, green 0.4 s later
+  pro: {
+    name: 'Pro (0.4s all amber)',
+    schedule: [
+      { light: 'amber1', at: 0 },
+      { light: 'amber2', at: 0 },
+      { light: 'amber3', at: 0 },
+      { light: 'green', at: 0.4 },
+    ],
+  },
+};
+
+export interface DragResult {
+  tree: TreeType;
+  reactionTime: number | null; // seconds from green to the first movement, negative on a red light
+  redLight: boolean;
+}
+
+/** A fix, as the tree needs it */
+export interface TreeFix {
+  measuredSpeed: number; // m/s as the receiver reported it, before the noise floor
+}
+
+export type DragTreeEvents = {
+  phase: [phase: TreePhase];
+  lights: [lights: TreeLight[]];
+  result: [result: DragResult];
+};
+
+type Listener<E extends keyof DragTreeEvents> = (...args: DragTreeEvents[E]) => void;
+type AnyListener = (...args: unknown[]) => void;
+
+// Both speeds are the receiver's own, below the noise floor the timing treats as standstill
+const STAGE_SPEED = 1;    // km/h that counts as stopped on the line
+const STAGE_HOLD = 1000;  // ms stopped before the vehicle is staged
+// Like a starter, the tree is activated a little while after staging, never predictably
+const STARTER_DELAY_MIN = 600;  // ms
+const STARTER_DELAY_MAX = 1400; // ms
+// Rolling faster than this after staging leaves the beams before the launch is detected
+const CREEP_SPEED = 3;    // km/h
+
+/**
+ * The start of a drag run, independent of React. Receiver speeds stage the vehicle and
+ * watch for creeping; launch detection marks the first movement. The green light's time is
+ * fixed when the vehicle stages, so the reaction time does not depend on when the
+ * countdown timers actually fire.
+ */
+export class DragTree {
+  private _phase: TreePhase = 'idle';
+  private type: TreeType = 'sportsman';
+  private readonly listeners = new Map<keyof DragTreeEvents, Set<AnyListener>>();
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private lights: TreeLight[] = [];
+  private stoppedSince: number | null = null;
+  private greenAt: number | null = null;
+  private result: DragResult | null = null;
+
+  /** @param now clock shared with launch detection, in milliseconds */
+  constructor(private readonly now: () => number, private readonly random: () => number = Math.random) {}
+
+  get phase(): TreePhase {
+    return this._phase;
+  }
+
+  getResult(): DragResult | null {
+    return this.result;
+  }
+
+  /** Subscribes to an event; returns the function that unsubscribes */
+  on<E extends keyof DragTreeEvents>(event: E, listener: Listener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set<AnyListener>();
+    listeners.add(listener as AnyListener);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(listener as AnyListener);
+    };
+  }
+
+  private emit<E extends keyof DragTreeEvents>(event: E, ...args: DragTreeEvents[E]) {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+
+  private setPhase(phase: TreePhase) {
+    this._phase = phase;
+    console.log('🚦 Drag tree:', phase);
+    this.emit('phase', phase);
+  }
+
+  private setLights(lights: TreeLight[]) {
+    this.lights = lights;
+    this.emit('lights', lights);
+  }
+
+  /** Waits for the vehicle to come to a stop on the line */
+  preStage(type: TreeType) {
+    this.reset();
+    this.type = type;
+    this.setPhase('preStaged');
+  }
+
+  /**
+   * Feeds a fix: stages the vehicle, then watches for it creeping. Walking pace is what
+   * staging and creep are about, so the tree reads the speed from before the noise floor.
+   */
+  pushFix(fix: TreeFix) {
+    const speed = fix.measuredSpeed * 3.6;
+    if (this._phase === 'preStaged') {
+      if (speed > STAGE_SPEED) {
+        this.stoppedSince = null;
+        return;
+      }
+      const now = this.now();
+      this.stoppedSince ??= now;
+      if (now - this.stoppedSince >= STAGE_HOLD) this.stage(now);
+    } else if ((this._phase === 'staged' || this._phase === 'countdown') && speed > CREEP_SPEED) {
+      console.log('🚦 Movement before the green at', speed.toFixed(1), 'km/h');
+      this.move();
+    }
+  }
+
+  /** The first movement of the vehicle, from launch detection */
+  move() {
+    if (this.result || this.greenAt === null) return;
+    if (this._phase !== 'staged' && this._phase !== 'countdown' && this._phase !== 'green') return;
+
+    const reactionTime = (this.now() - this.greenAt) / 1000;
+    const redLight = reactionTime < 0;
+    this.result = { tree: this.type, reactionTime, redLight };
+    console.log('🚦 Reaction time', reactionTime.toFixed(3), redLight ? 's - RED LIGHT' : 's');
+
+    if (redLight) {
+      this.clearTimers();
+      this.setLights([...this.lights, 'red']);
+      this.setPhase('red');
+    }
+    this.emit('result', this.result);
+  }
+
+  /** Stops the countdown and clears the tree */
+  reset() {
+    this.clearTimers();
+    this.stoppedSince = null;
+    this.greenAt = null;
+    this.result = null;
+    if (this.lights.length > 0) this.setLights([]);
+    if (this._phase !== 'idle') this.setPhase('idle');
+  }
+
+  private stage(now: number) {
+    this.setPhase('staged');
+
+    const delay = STARTER_DELAY_MIN + this.random() * (STARTER_DELAY_MAX - STARTER_DELAY_MIN);
+    const { schedule } = TREE_PRESETS[this.type];
+    const green = schedule.find(step => step.light === 'green');
+    this.greenAt = now + delay + green.at * 1000;
+
+    this.timers.push(setTimeout(() => this.setPhase('countdown'), delay));
+    schedule.forEach(step => {
+      this.timers.push(setTimeout(() => {
+        this.setLights([...this.lights, step.light]);
+        if (step.light === 'green') this.setPhase('green');
+      }, delay + step.at * 1000));
+    });
+  }
+
+  private clearTimers() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+}
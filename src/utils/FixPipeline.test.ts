@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixPipeline, NOISE_FLOOR } from './FixPipeline';
+import { GnssPosition } from './LocationProvider';
+
+const START = 1_700_000_000_000;
+
+const position = (time: number, speed: number | null, options: { accuracy?: number; north?: number } = {}): GnssPosition => ({
+  coords: {
+    latitude: 51.5 + (options.north ?? 0) / 111_195,
+    longitude: -0.12,
+    altitude: null,
+    accuracy: options.accuracy ?? 3,
+    altitudeAccuracy: null,
+    speed,
+    heading: 0,
+  },
+  timestamp: START + time * 1000,
+});
+
+// Fusion that passes the GPS speed through, so the pipeline's own handling shows
+const passThrough = (speed: number) => speed;
+
+describe('FixPipeline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('logs fixes with poor accuracy but keeps them from the session', () => {
+    const pipeline = new FixPipeline();
+    const update = pipeline.handlePosition(position(0, 10, { accuracy: 20 }), 0, null, passThrough);
+
+    expect(update.fix).toBeNull();
+    expect(update.rawFix.accuracy).toBe(20);
+    expect(pipeline.getRawFixes()).toHaveLength(1);
+  });
+
+  it('treats speeds under the noise floor as stopped and keeps the measured speed', () => {
+    const pipeline = new FixPipeline();
+    const speed = (NOISE_FLOOR - 1) / 3.6;
+    const { fix } = pipeline.handlePosition(position(0, speed), 0, null, passThrough);
+
+    expect(fix.speed).toBe(0);
+    expect(fix.measuredSpeed).toBe(speed);
+  });
+
+  it('derives the speed from the positions when the source reports none', () => {
+    const pipeline = new FixPipeline();
+    pipeline.handlePosition(position(0, null), 0, null, passThrough);
+    const { fix } = pipeline.handlePosition(position(1, null, { north: 20 }), 1000, null, passThrough);
+
+    expect(fix.speed).toBeCloseTo(72, 0);
+  });
+
+  it('times raw fixes on the run timer once it has started', () => {
+    const pipeline = new FixPipeline();
+    pipeline.handlePosition(position(0, 0), 5000, null, passThrough);
+    const { rawFix } = pipeline.handlePosition(position(0.1, 2), 5100, 5000, passThrough);
+
+    expect(pipeline.getRawFixes()[0].time).toBeNull();
+    expect(rawFix.time).toBeCloseTo(0.1, 6);
+  });
+
+  it('flags a speed spike as an outlier and keeps it out of the fusion filter', () => {
+    const pipeline = new FixPipeline();
+    const fuse = vi.fn(passThrough);
+    for (let i = 0; i < 10; i++) {
+      pipeline.handlePosition(position(i / 10, 20 + i * 0.1), i * 100, 0, fuse);
+    }
+    fuse.mockClear();
+    const { rawFix } = pipeline.handlePosition(position(1, 60), 1000, 0, fuse);
+
+    expect(rawFix.outlier).toBe(true);
+    expect(fuse).not.toHaveBeenCalled();
+  });
+
+  it('passes the fused speed on while it stays close to the GPS speed', () => {
+    const pipeline = new FixPipeline();
+    const fuse = vi.fn(() => 50);
+    const { fix, rawFix } = pipeline.handlePosition(position(0, 48 / 3.6), 0, null, fuse);
+
+    expect(fuse).toHaveBeenCalledWith(expect.closeTo(48, 6), 3, 0);
+    expect(fix.speed).toBe(50);
+    expect(rawFix.fusedSpeed).toBe(50);
+  });
+
+  it('forgets everything on reset', () => {
+    const pipeline = new FixPipeline();
+    pipeline.handlePosition(position(0, 10), 0, null, passThrough);
+    pipeline.handlePosition(position(0.1, 10), 100, null, passThrough);
+    pipeline.reset();
+
+    const update = pipeline.handlePosition(position(0.2, 10), 200, null, passThrough);
+    expect(update.rate).toBeNull();
+    expect(pipeline.getRawFixes()).toHaveLength(1);
+  });
+});
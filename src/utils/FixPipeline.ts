@@ -0,0 +1,253 @@
+// Per-fix processing behind live tracking: logging, accuracy rejection, speed derivation,
+// noise filtering, outlier handling and sensor fusion, independent of React
+
+import { DataPoint, OutlierDetector, SavitzkyGolayFilter } from './DataProcessing';
+import { GnssPosition } from './LocationProvider';
+import { SessionFix } from './MeasurementSession';
+import { RawFix } from './RunStore';
+
+// Calculate distance between two GPS coordinates (Haversine formula)
+const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+};
+
+/** Fixes reporting a worse horizontal accuracy are logged but not used (metres) */
+const MAX_ACCURACY = 15;
+/** Slower speeds are GPS noise at standstill and count as stopped (km/h) */
+export const NOISE_FLOOR = 5;
+// Fixes kept for the rate shown to the user
+const RATE_WINDOW = 10;
+
+export interface GnssQuality {
+  satellites: number | null;
+  satellitesInView: number | null;
+  hdop: number | null;
+}
+
+/** Corrects the fusion filter with a GPS speed (km/h) handled at a clock time; returns the fused speed */
+export type SpeedFusion = (speedKmh: number, accuracy: number | null, clock: number) => number;
+
+export interface FixUpdate {
+  rawFix: RawFix;               // the fix as received, with the processing results once accepted
+  rate: number | null;          // fixes per second over the recent fixes, null until there are two
+  quality: GnssQuality | null;  // satellites and dilution of precision, where the source reports them
+  fix: SessionFix | null;       // what the measurement session gets, null for rejected fixes
+}
+
+/**
+ * Turns each position from a location source into the fix the measurement session
+ * consumes. Keeps the state that spans fixes: the raw log, the previous position for
+ * position-derived speeds and recent speeds for outlier detection.
+ */
+export class FixPipeline {
+  private lastTimestamp: number | null = null;
+  private lastPosition: { latitude: number; longitude: number } | null = null;
+  private dataPoints: DataPoint[] = [];
+  private rateClocks: number[] = [];
+  private rawFixes: RawFix[] = [];
+  private readonly savitzkyGolay = new SavitzkyGolayFilter();
+  private readonly outlierDetector = new OutlierDetector(3.0);
+
+  /**
+   * @param clock      time the fix was handled, on the location source's clock (ms)
+   * @param startTime  clock time the run timer started, null before
+   * @param fuse       the sensor fusion filter's GPS correction
+   */
+  handlePosition(position: GnssPosition, clock: number, startTime: number | null, fuse: SpeedFusion): FixUpdate {
+    console.log('📍 GPS position received. StartTime:', startTime);
+
+    // Calculate GPS update rate (Hz)
+    this.rateClocks.push(clock);
+    if (this.rateClocks.length > RATE_WINDOW) {
+      this.rateClocks.shift();
+    }
+
+    let rate: number | null = null;
+    if (this.rateClocks.length >= 2) {
+      const timeSpan = (this.rateClocks[this.rateClocks.length - 1] - this.rateClocks[0]) / 1000;
+      rate = timeSpan > 0 ? (this.rateClocks.length - 1) / timeSpan : 0;
+    }
+
+    const elapsed = startTime !== null ? (clock - startTime) / 1000 : null;
+
+    // Keep every fix exactly as received so runs can be re-processed later
+    const rawFix: RawFix = {
+      timestamp: position.timestamp,
+      time: elapsed,
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      altitude: position.coords.altitude,
+      accuracy: Number.isFinite(position.coords.accuracy) ? position.coords.accuracy : null,
+      altitudeAccuracy: position.coords.altitudeAccuracy,
+      speed: position.coords.speed,
+      heading: position.coords.heading,
+      satellites: position.satellites,
+      hdop: position.hdop,
+    };
+    this.rawFixes.push(rawFix);
+
+    // External receivers report satellites and dilution of precision; the browser does not
+    const quality = position.satellites !== undefined || position.hdop !== undefined
+      ? { satellites: position.satellites ?? null, satellitesInView: position.satellitesInView ?? null, hdop: position.hdop ?? null }
+      : null;
+
+    // Filter out readings with poor accuracy
+    const accuracy = position.coords.accuracy;
+    if (accuracy && accuracy > MAX_ACCURACY) {
+      console.log('GPS reading rejected - poor accuracy:', accuracy, 'm');
+      return { rawFix, rate, quality, fix: null };
+    }
+
+    // Process GPS data for speed calculation regardless of running state
+    // This allows speed detection during waiting phase to trigger measurement start
+
+    console.log('GPS Position:', {
+      speed: position.coords.speed,
+      accuracy: accuracy,
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      timestamp: position.timestamp
+    });
+
+    const timestamp = position.timestamp;
+
+    // Get speed from GPS or calculate from position change
+    let speedMs = 0;
+
+    // Prioritize GPS speed when available and reasonable
+    if (position.coords.speed !== null && position.coords.speed >= 0) {
+      speedMs = position.coords.speed;
+      console.log('Using GPS speed:', speedMs, 'm/s');
+    } else {
+      // Only calculate from position if GPS speed is unavailable and conditions are right
+      if (this.lastTimestamp && position.coords.latitude && position.coords.longitude) {
+        const prevPos = this.lastPosition;
+        if (prevPos) {
+          const distance = calculateDistance(
+            prevPos.latitude, prevPos.longitude,
+            position.coords.latitude, position.coords.longitude
+          );
+          const dt = (timestamp - this.lastTimestamp) / 1000;
+
+          // Very conservative position-based calculation with strict bounds
+          if (dt > 0.5 && dt < 5 && distance < 100) { // Max 100m distance between readings
+            const calculatedSpeed = distance / dt;
+            console.log('Position-based speed:', calculatedSpeed, 'm/s', 'distance:', distance.toFixed(2), 'dt:', dt.toFixed(2));
+
+            // Apply sanity check - reject unrealistic speeds
+            if (calculatedSpeed < 100) { // Max 360 km/h seems reasonable for any vehicle
+              speedMs = calculatedSpeed;
+            } else {
+              console.log('Position-based speed rejected as unrealistic:', calculatedSpeed, 'm/s');
+              speedMs = 0;
+            }
+          }
+        }
+      }
+    }
+
+    // Store current position for next calculation
+    this.lastPosition = {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude
+    };
+
+    let speedKmh = speedMs * 3.6; // Convert m/s to km/h
+
+    // Apply realistic speed bounds - reject obviously wrong readings
+    if (speedKmh > 400) { // Max realistic speed for any vehicle
+      console.log('Speed rejected as unrealistic:', speedKmh, 'km/h');
+      speedKmh = 0;
+    } else if (speedKmh < NOISE_FLOOR) {
+      // Walking speeds are GPS noise at standstill
+      speedKmh = 0;
+      console.log('Speed filtered out as noise (< 5 km/h)');
+    }
+
+    // Apply real-time outlier detection (but still store the point)
+    const recentPoints = this.dataPoints.slice(-10); // Last 10 points for context
+    recentPoints.push({ time: elapsed ?? 0, speed: speedKmh });
+
+    const outliers = this.outlierDetector.detectOutliers(recentPoints);
+    const isCurrentOutlier = outliers[outliers.length - 1];
+
+    let displaySpeed = speedKmh;
+    if (isCurrentOutlier) {
+      console.log('Outlier detected:', speedKmh, 'km/h - using filtered value');
+      // Don't reject completely, but apply light smoothing
+      const filteredPoints = this.savitzkyGolay.filter(recentPoints.slice(-5));
+      displaySpeed = filteredPoints.length > 0 ? filteredPoints[filteredPoints.length - 1].speed : speedKmh;
+      displaySpeed = Math.max(0, displaySpeed); // Ensure non-negative
+    }
+
+    const dt = this.lastTimestamp ? (timestamp - this.lastTimestamp) / 1000 : 0.1;
+    this.lastTimestamp = timestamp;
+
+    // Prefer raw GPS when the fused estimate strays too far from it
+    let finalSpeed = speedKmh;
+
+    // Every plausible fix corrects the fusion filter, including standstill, so the
+    // accelerometer-driven prediction between fixes always starts from a fresh speed
+    if (speedKmh < 300 && !isCurrentOutlier) {
+      const fusedSpeed = fuse(speedKmh, rawFix.accuracy, clock);
+
+      // Use Kalman result only if it's close to GPS reading (prevent amplification)
+      if (speedKmh > 0 && Math.abs(fusedSpeed - speedKmh) < speedKmh * 0.3) { // Max 30% difference
+        finalSpeed = fusedSpeed;
+      }
+    }
+
+    console.log('Speed processing:', {
+      rawSpeedKmh: speedKmh.toFixed(2),
+      finalSpeed: finalSpeed.toFixed(2),
+      isOutlier: isCurrentOutlier,
+      dt: dt.toFixed(3),
+      elapsed: (elapsed ?? 0).toFixed(2)
+    });
+
+    // Ensure non-negative speed and apply final bounds check
+    finalSpeed = Math.max(0, Math.min(finalSpeed, 350)); // Cap at 350 km/h
+    rawFix.fusedSpeed = finalSpeed;
+    rawFix.outlier = isCurrentOutlier;
+
+    // Keep recent timed points as context for outlier detection
+    if (elapsed !== null) {
+      this.dataPoints.push({ time: elapsed, speed: finalSpeed });
+    }
+
+    return {
+      rawFix,
+      rate,
+      quality,
+      fix: {
+        clock,
+        timestamp,
+        speed: finalSpeed,
+        measuredSpeed: speedMs,
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      },
+    };
+  }
+
+  /** Every fix received since the last reset, as received */
+  getRawFixes(): RawFix[] {
+    return [...this.rawFixes];
+  }
+
+  /** Forgets everything recorded, before a new run */
+  reset() {
+    this.lastTimestamp = null;
+    this.lastPosition = null;
+    this.dataPoints = [];
+    this.rateClocks = [];
+    this.rawFixes = [];
+  }
+}
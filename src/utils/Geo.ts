@@ -0,0 +1,27 @@
+// Flat-earth geometry over the short distances of a single run
+
+export const EARTH_RADIUS = 6371000; // metres
+
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+/** East/north offset in metres from one position to another */
+export const localOffset = (from: LatLon, to: LatLon): { east: number; north: number } => {
+  const north = (to.latitude - from.latitude) * Math.PI / 180 * EARTH_RADIUS;
+  const east = (to.longitude - from.longitude) * Math.PI / 180 * EARTH_RADIUS * Math.cos(from.latitude * Math.PI / 180);
+  return { east, north };
+};
+
+/** Bearing in degrees from true north of the direction from one position to another */
+export const bearingBetween = (from: LatLon, to: LatLon): number => {
+  const { east, north } = localOffset(from, to);
+  return (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+};
+
+/** Smallest difference between two bearings in degrees */
+export const angleBetween = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EARTH_RADIUS } from './Geo';
+import { LapFix, LapTimer, createLine, findLineCrossing, formatLapTime } from './LapTimer';
+
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+const START = 1_700_000_000_000;
+
+// Fix a given number of metres east and north of the origin, at seconds from the start
+const fixAt = (east: number, north: number, time: number): LapFix => ({
+  latitude: ORIGIN.latitude + (north / EARTH_RADIUS) * 180 / Math.PI,
+  longitude: ORIGIN.longitude + (east / (EARTH_RADIUS * Math.cos(ORIGIN.latitude * Math.PI / 180))) * 180 / Math.PI,
+  timestamp: START + time * 1000,
+});
+
+// Crossed heading north through the origin
+const line = createLine(ORIGIN, 0);
+
+describe('findLineCrossing', () => {
+  it('interpolates the crossing between the fixes', () => {
+    const crossing = findLineCrossing(line, fixAt(0, -10, 0), fixAt(0, 30, 1));
+    expect(crossing).toBeCloseTo(START + 250, 3);
+  });
+
+  it('places the crossing where a diagonal track meets the line', () => {
+    const crossing = findLineCrossing(line, fixAt(-6, -30, 2), fixAt(2, 10, 3));
+    expect(crossing).toBeCloseTo(START + 2750, 3);
+  });
+
+  it('ignores the line crossed the wrong way', () => {
+    expect(findLineCrossing(line, fixAt(0, 10, 0), fixAt(0, -10, 1))).toBeNull();
+  });
+
+  it('ignores a track passing beside the line', () => {
+    expect(findLineCrossing(line, fixAt(20, -10, 0), fixAt(20, 10, 1))).toBeNull();
+  });
+
+  it('ignores fixes that both lie on one side', () => {
+    expect(findLineCrossing(line, fixAt(0, 5, 0), fixAt(0, 15, 1))).toBeNull();
+  });
+});
+
+describe('LapTimer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  // Laps of a small loop through the line, one starting every 20 s
+  const driveLap = (timer: LapTimer, startTime: number, laps: number) => {
+    const path = [[0, -10], [0, 10], [0, 30], [20, 50], [40, 30], [40, -30], [20, -50], [0, -30]];
+    for (let lap = 0; lap < laps; lap++) {
+      path.forEach(([east, north], i) => timer.pushFix(fixAt(east, north, startTime + lap * 20 + i)));
+    }
+  };
+
+  it('times laps between interpolated crossings', () => {
+    const timer = new LapTimer(line);
+    const onLap = vi.fn();
+    timer.on('lap', onLap);
+    driveLap(timer, 0, 2);
+    timer.pushFix(fixAt(0, -10, 40));
+    timer.pushFix(fixAt(0, 10, 41));
+
+    expect(timer.laps.map(lap => lap.time)).toEqual([expect.closeTo(20, 6), expect.closeTo(20, 6)]);
+    expect(timer.laps[0].start).toBeCloseTo(START + 500, 3);
+    expect(onLap).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs the lap time between fixes', () => {
+    const timer = new LapTimer(line);
+    timer.pushFix(fixAt(0, -10, 0));
+    timer.pushFix(fixAt(0, 10, 1));
+
+    expect(timer.getState(START + 1250)).toMatchObject({ lap: 1, elapsed: 0.75 });
+  });
+});
+
+describe('formatLapTime', () => {
+  it('writes minutes, seconds and milliseconds', () => {
+    expect(formatLapTime(83.4567)).toBe('1:23.457');
+    expect(formatLapTime(5.2)).toBe('0:05.200');
+  });
+
+  it('rounds a time just short of a minute up to the next minute', () => {
+    expect(formatLapTime(59.9996)).toBe('1:00.000');
+  });
+
+  it('shows no time as dashes', () => {
+    expect(formatLapTime(null)).toBe('-:--.---');
+  });
+});
@@ -0,0 +1,270 @@
+// Circuit lap timing against a GPS start/finish line
+
+import { LatLon, bearingBetween, localOffset } from './Geo';
+
+export interface StartFinishLine {
+  latitude: number;  // centre of the line
+  longitude: number;
+  heading: number;   // degrees from true north, the direction laps cross the line in
+  width: number;     // metres, the line reaches half of it to either side of the centre
+}
+
+/** A position fix, as the lap timer needs it */
+export interface LapFix extends LatLon {
+  timestamp: number; // epoch milliseconds reported with the fix
+}
+
+export interface LapTracePoint {
+  distance: number; // metres from the start of the lap
+  elapsed: number;  // seconds from the start of the lap
+}
+
+export interface Lap {
+  number: number;
+  time: number;  // seconds
+  start: number; // epoch milliseconds of the crossing that started the lap
+  end: number;   // epoch milliseconds of the crossing that ended it
+  distance: number; // metres
+  trace: LapTracePoint[];
+}
+
+export interface LapState {
+  lap: number | null;     // number of the lap being driven, null before the first crossing
+  elapsed: number | null; // seconds into the current lap
+  delta: number | null;   // seconds ahead (negative) or behind the best lap at the same distance
+}
+
+export type LapTimerEvents = {
+  crossing: [timestamp: number];
+  lap: [lap: Lap, isBest: boolean];
+  update: [state: LapState];
+};
+
+type Listener<E extends keyof LapTimerEvents> = (...args: LapTimerEvents[E]) => void;
+type AnyListener = (...args: unknown[]) => void;
+
+// Wide enough for a track and its run-off, narrow enough to miss the pit lane alongside
+export const DEFAULT_LINE_WIDTH = 30; // metres
+// Crossings closer together than this are GPS jitter around the line, not laps
+const MIN_LAP_TIME = 10;    // seconds
+// Fixes closer than this give no usable direction for dropping a line
+const MIN_HEADING_MOVE = 5; // metres
+const HEADING_HISTORY = 20; // fixes kept to find the direction of travel
+// Between fixes the distance is carried on at the last speed, for no longer than this
+const MAX_EXTRAPOLATION = 1000; // ms
+
+/** Lap time as m:ss.sss */
+export const formatLapTime = (time: number | null): string => {
+  if (time === null) return '-:--.---';
+  // Round first so a time just short of a minute does not show as 60 seconds
+  const milliseconds = Math.round(time * 1000);
+  const minutes = Math.floor(milliseconds / 60000);
+  return `${minutes}:${((milliseconds - minutes * 60000) / 1000).toFixed(3).padStart(6, '0')}`;
+};
+
+/** A line through a position, to be crossed in the given direction */
+export const createLine = (position: LatLon, heading: number, width: number = DEFAULT_LINE_WIDTH): StartFinishLine => ({
+  latitude: position.latitude,
+  longitude: position.longitude,
+  heading: (heading % 360 + 360) % 360,
+  width,
+});
+
+// Position relative to the line: along the direction of travel and across the track
+const toLineFrame = (line: StartFinishLine, position: LatLon) => {
+  const { east, north } = localOffset(line, position);
+  const headingRad = line.heading * Math.PI / 180;
+  return {
+    along: east * Math.sin(headingRad) + north * Math.cos(headingRad),
+    across: east * Math.cos(headingRad) - north * Math.sin(headingRad),
+  };
+};
+
+/**
+ * Moment the track between two fixes crossed the line forwards, in epoch milliseconds.
+ * The crossing is interpolated linearly between the fixes, so it is not limited to the
+ * fix rate.
+ */
+export const findLineCrossing = (line: StartFinishLine, from: LapFix, to: LapFix): number | null => {
+  const a = toLineFrame(line, from);
+  const b = toLineFrame(line, to);
+  if (!(a.along < 0 && b.along >= 0)) return null;
+
+  const ratio = -a.along / (b.along - a.along);
+  const across = a.across + (b.across - a.across) * ratio;
+  if (Math.abs(across) > line.width / 2) return null;
+
+  return from.timestamp + (to.timestamp - from.timestamp) * ratio;
+};
+
+// Elapsed time of a lap at a distance into it, interpolated along its trace
+const elapsedAtDistance = (trace: LapTracePoint[], distance: number): number | null => {
+  for (let i = 1; i < trace.length; i++) {
+    if (trace[i].distance >= distance) {
+      const prev = trace[i - 1];
+      const next = trace[i];
+      const span = next.distance - prev.distance;
+      return span > 0 ? prev.elapsed + (next.elapsed - prev.elapsed) * (distance - prev.distance) / span : next.elapsed;
+    }
+  }
+  return null;
+};
+
+/**
+ * Lap timing, independent of React. Every fix is checked for a crossing of the start/finish
+ * line; the first crossing starts lap 1 and each later one completes a lap. The delta
+ * compares the current lap with the best lap at the same distance travelled.
+ */
+export class LapTimer {
+  private readonly listeners = new Map<keyof LapTimerEvents, Set<AnyListener>>();
+  private line: StartFinishLine | null;
+  private recentFixes: LapFix[] = [];
+  private lapStart: number | null = null;
+  private lapDistance = 0;
+  private speed = 0; // m/s over the last step between fixes
+  private trace: LapTracePoint[] = [];
+  private _laps: Lap[] = [];
+
+  constructor(line: StartFinishLine | null = null) {
+    this.line = line;
+  }
+
+  get laps(): Lap[] {
+    return this._laps;
+  }
+
+  get bestLap(): Lap | null {
+    return this._laps.reduce<Lap | null>((best, lap) => (!best || lap.time < best.time ? lap : best), null);
+  }
+
+  /** Subscribes to an event; returns the function that unsubscribes */
+  on<E extends keyof LapTimerEvents>(event: E, listener: Listener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set<AnyListener>();
+    listeners.add(listener as AnyListener);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(listener as AnyListener);
+    };
+  }
+
+  private emit<E extends keyof LapTimerEvents>(event: E, ...args: LapTimerEvents[E]) {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+
+  /** Moves the line; the lap in progress is abandoned since it no longer has a valid start */
+  setLine(line: StartFinishLine | null) {
+    this.line = line;
+    this.lapStart = null;
+    this.emitState();
+  }
+
+  /**
+   * Direction of travel, from the latest fix back to the newest one a few metres behind it
+   * so position noise does not swing it around. Null while standing still.
+   */
+  getHeading(): number | null {
+    const last = this.recentFixes[this.recentFixes.length - 1];
+    for (let i = this.recentFixes.length - 2; i >= 0; i--) {
+      const { east, north } = localOffset(this.recentFixes[i], last);
+      if (Math.hypot(east, north) >= MIN_HEADING_MOVE) return bearingBetween(this.recentFixes[i], last);
+    }
+    return null;
+  }
+
+  /** A line at the last fix, across the current direction of travel */
+  dropLine(width: number = DEFAULT_LINE_WIDTH): StartFinishLine | null {
+    const heading = this.getHeading();
+    if (heading === null) return null;
+    const line = createLine(this.recentFixes[this.recentFixes.length - 1], heading, width);
+    this.setLine(line);
+    return line;
+  }
+
+  pushFix(fix: LapFix) {
+    const previous = this.recentFixes[this.recentFixes.length - 1] ?? null;
+    this.recentFixes = [...this.recentFixes.slice(-(HEADING_HISTORY - 1)), fix];
+    if (!previous || fix.timestamp <= previous.timestamp) return;
+
+    const { east, north } = localOffset(previous, fix);
+    const step = Math.hypot(east, north);
+    this.speed = step / ((fix.timestamp - previous.timestamp) / 1000);
+    const crossing = this.line ? findLineCrossing(this.line, previous, fix) : null;
+    if (crossing !== null && (this.lapStart === null || (crossing - this.lapStart) / 1000 >= MIN_LAP_TIME)) {
+      const before = step * (crossing - previous.timestamp) / (fix.timestamp - previous.timestamp);
+      this.cross(crossing, before);
+      // The new lap already covers the part of the step past the line
+      this.lapDistance = step - before;
+    } else if (this.lapStart !== null) {
+      this.lapDistance += step;
+    }
+    if (this.lapStart !== null) {
+      this.trace.push({ distance: this.lapDistance, elapsed: (fix.timestamp - this.lapStart) / 1000 });
+    }
+
+    this.emitState(fix.timestamp);
+  }
+
+  // Ends the lap in progress at the crossing, `remaining` metres after the last fix, and starts the next
+  private cross(crossing: number, remaining: number) {
+    console.log('🏁 Start/finish line crossed');
+    this.emit('crossing', crossing);
+
+    if (this.lapStart !== null) {
+      const time = (crossing - this.lapStart) / 1000;
+      const distance = this.lapDistance + remaining;
+      const previousBest = this.bestLap;
+      const lap: Lap = {
+        number: this._laps.length + 1,
+        time,
+        start: this.lapStart,
+        end: crossing,
+        distance,
+        trace: [...this.trace, { distance, elapsed: time }],
+      };
+      this._laps = [...this._laps, lap];
+      const isBest = !previousBest || time < previousBest.time;
+      console.log(`⏱️ Lap ${lap.number}: ${time.toFixed(3)}s${isBest ? ' (best)' : ''}`);
+      this.emit('lap', lap, isBest);
+    }
+
+    this.lapStart = crossing;
+    this.lapDistance = 0;
+    this.trace = [{ distance: 0, elapsed: 0 }];
+  }
+
+  /**
+   * The lap in progress at a moment on the fixes' clock, so the lap time can run between
+   * fixes. Past the last fix the distance is carried on at its speed for the delta.
+   */
+  getState(timestamp: number | null = null): LapState {
+    const lap = this.lapStart !== null ? this._laps.length + 1 : null;
+    const last = this.recentFixes[this.recentFixes.length - 1];
+    if (lap === null || timestamp === null || !last) return { lap, elapsed: null, delta: null };
+
+    const elapsed = (timestamp - this.lapStart) / 1000;
+    const sinceFix = Math.min(Math.max(timestamp - last.timestamp, 0), MAX_EXTRAPOLATION);
+    const distance = this.lapDistance + this.speed * sinceFix / 1000;
+    const best = this.bestLap;
+    const bestElapsed = best ? elapsedAtDistance(best.trace, distance) : null;
+    return {
+      lap,
+      elapsed,
+      delta: bestElapsed !== null ? elapsed - bestElapsed : null,
+    };
+  }
+
+  private emitState(timestamp: number | null = null) {
+    this.emit('update', this.getState(timestamp));
+  }
+
+  /** Clears the laps; the line is kept */
+  reset() {
+    this.recentFixes = [];
+    this.lapStart = null;
+    this.lapDistance = 0;
+    this.speed = 0;
+    this.trace = [];
+    this._laps = [];
+    this.emitState();
+  }
+}
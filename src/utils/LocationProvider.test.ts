@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CapacitorLocationProvider } from './LocationProvider';
+
+const geolocation = vi.hoisted(() => ({
+  getCurrentPosition: vi.fn(),
+  watchPosition: vi.fn(),
+  clearWatch: vi.fn(),
+}));
+
+vi.mock('@capacitor/geolocation', () => ({ Geolocation: geolocation }));
+vi.mock('@capacitor/core', () => ({
+  Capacitor: { isPluginAvailable: () => true, isNativePlatform: () => true },
+}));
+
+// Lets the provider's promise callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('CapacitorLocationProvider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    geolocation.clearWatch.mockResolvedValue(undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reports a watch the plugin refuses to the error callback', async () => {
+    geolocation.watchPosition.mockRejectedValue(new Error('Location permission was denied'));
+    const onError = vi.fn();
+    const provider = new CapacitorLocationProvider();
+
+    provider.start(() => {}, onError);
+    await settle();
+    provider.stop();
+    await settle();
+
+    expect(onError).toHaveBeenCalledWith({ code: 1, message: 'Location permission was denied' });
+    expect(geolocation.clearWatch).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet about a failed watch it was already stopped from', async () => {
+    geolocation.watchPosition.mockRejectedValue(new Error('Plugin not implemented'));
+    const onError = vi.fn();
+    const provider = new CapacitorLocationProvider();
+
+    provider.start(() => {}, onError);
+    provider.stop();
+    await settle();
+
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('passes native fixes and errors on in the shape the pipeline takes', async () => {
+    geolocation.watchPosition.mockResolvedValue('watch-1');
+    const onPosition = vi.fn();
+    const onError = vi.fn();
+    const provider = new CapacitorLocationProvider();
+
+    provider.start(onPosition, onError);
+    const callback = geolocation.watchPosition.mock.calls[0][1];
+    const coords = { latitude: 51.5, longitude: -0.12, accuracy: 3, altitude: null, speed: 12.5, heading: 90 };
+    callback({ coords, timestamp: 1_700_000_000_000 });
+    callback(null, { message: 'Location services are not enabled' });
+
+    expect(onPosition).toHaveBeenCalledWith({ coords: { ...coords, altitudeAccuracy: null }, timestamp: 1_700_000_000_000 });
+    expect(onError).toHaveBeenCalledWith({ code: 2, message: 'Location services are not enabled' });
+  });
+
+  it('clears the native watch it started', async () => {
+    geolocation.watchPosition.mockResolvedValue('watch-1');
+    const provider = new CapacitorLocationProvider();
+
+    provider.start(() => {}, () => {});
+    provider.stop();
+    await settle();
+
+    expect(geolocation.clearWatch).toHaveBeenCalledWith({ id: 'watch-1' });
+  });
+});
@@ -0,0 +1,179 @@
+// Sources of position fixes for the GPS pipeline, so it can run from the phone, a native
+// shell, an external receiver, a recorded run or generated data alike
+
+import { Capacitor } from '@capacitor/core';
+import { Geolocation, Position, WatchPositionCallback } from '@capacitor/geolocation';
+
+/** A fix in the shape of a browser GeolocationPosition, plus receiver quality figures */
+export interface GnssPosition {
+  coords: {
+    latitude: number;
+    longitude: number;
+    altitude: number | null;
+    accuracy: number;       // metres, NaN when the source does not report it
+    altitudeAccuracy: number | null;
+    speed: number | null;   // m/s
+    heading: number | null; // degrees from true north
+  };
+  timestamp: number;        // epoch milliseconds
+  satellites?: number;      // satellites used in the fix
+  satellitesInView?: number;
+  hdop?: number;
+}
+
+/** Error codes follow GeolocationPositionError so callers can handle every source alike */
+export interface LocationProviderError {
+  code: number; // 1 permission denied, 2 position unavailable, 3 timeout
+  message: string;
+}
+
+export interface LocationProvider {
+  /** Short name for status messages, e.g. "GPS" */
+  readonly label: string;
+  /** Why the source cannot be used here, or null when it can */
+  getUnavailableReason(): string | null;
+  /** A single fix; also triggers the permission prompt where the platform has one */
+  getCurrentPosition(): Promise<GnssPosition>;
+  /** Starts delivering fixes; calling start again replaces the previous callbacks */
+  start(
+    onPosition: (position: GnssPosition) => void,
+    onError: (error: LocationProviderError) => void,
+    options?: PositionOptions
+  ): void;
+  stop(): void;
+  /**
+   * Clock the fixes are timed against, in milliseconds. Live sources use the wall clock;
+   * recorded and generated sources advance it with each fix so runs are reproducible.
+   */
+  now(): number;
+}
+
+const HIGH_ACCURACY_OPTIONS = {
+  enableHighAccuracy: true,
+  maximumAge: 0,
+  timeout: 10000,
+};
+
+const PERMISSION_OPTIONS = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 30000,
+};
+
+/** navigator.geolocation, as used in the browser and the PWA */
+export class BrowserLocationProvider implements LocationProvider {
+  readonly label = 'GPS';
+  private watchId: number | null = null;
+
+  getUnavailableReason(): string | null {
+    if (!navigator.geolocation) return 'Geolocation not supported in this browser';
+    if (!window.isSecureContext && location.hostname !== 'localhost') return 'GPS requires secure connection (HTTPS)';
+    return null;
+  }
+
+  getCurrentPosition(): Promise<GnssPosition> {
+    return new Promise((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, PERMISSION_OPTIONS);
+    });
+  }
+
+  start(
+    onPosition: (position: GnssPosition) => void,
+    onError: (error: LocationProviderError) => void,
+    options?: PositionOptions
+  ) {
+    // Never run two watches at once - that would feed every fix through the pipeline twice
+    this.stop();
+    this.watchId = navigator.geolocation.watchPosition(onPosition, onError, { ...HIGH_ACCURACY_OPTIONS, ...options });
+    console.log('✅ GPS watch started with ID:', this.watchId);
+  }
+
+  stop() {
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+
+  now(): number {
+    return performance.now();
+  }
+}
+
+// The plugin's position carries no satellite figures and may leave the altitude accuracy out
+const fromCapacitorPosition = ({ coords, timestamp }: Position): GnssPosition => ({
+  coords: {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    altitude: coords.altitude,
+    accuracy: coords.accuracy,
+    altitudeAccuracy: coords.altitudeAccuracy ?? null,
+    speed: coords.speed,
+    heading: coords.heading,
+  },
+  timestamp,
+});
+
+// Native errors carry plugin-specific codes; map them onto the GeolocationPositionError ones
+const toProviderError = (error: unknown): LocationProviderError => {
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : String(error);
+  return { code: /permission|denied/i.test(message) ? 1 : 2, message };
+};
+
+/** Native location services through the Capacitor Geolocation plugin */
+export class CapacitorLocationProvider implements LocationProvider {
+  readonly label = 'GPS';
+  private watchId: Promise<string | null> | null = null;
+
+  getUnavailableReason(): string | null {
+    return Capacitor.isPluginAvailable('Geolocation') ? null : 'Native geolocation plugin not installed';
+  }
+
+  async getCurrentPosition(): Promise<GnssPosition> {
+    return fromCapacitorPosition(await Geolocation.getCurrentPosition(PERMISSION_OPTIONS));
+  }
+
+  start(
+    onPosition: (position: GnssPosition) => void,
+    onError: (error: LocationProviderError) => void,
+    options?: PositionOptions
+  ) {
+    this.stop();
+    const callback: WatchPositionCallback = (position, error) => {
+      if (error) {
+        onError(toProviderError(error));
+      } else if (position) {
+        onPosition(fromCapacitorPosition(position));
+      }
+    };
+    const watchId: Promise<string | null> = Geolocation.watchPosition({ ...HIGH_ACCURACY_OPTIONS, ...options }, callback).catch((error: unknown) => {
+      // A watch that cannot be set up rejects instead of calling back; report it the same way
+      console.error('❌ Native location watch failed:', error);
+      if (this.watchId === watchId) onError(toProviderError(error));
+      return null;
+    });
+    this.watchId = watchId;
+  }
+
+  stop() {
+    if (this.watchId !== null) {
+      const watchId = this.watchId;
+      this.watchId = null;
+      watchId.then(id => (id !== null ? Geolocation.clearWatch({ id }) : undefined)).catch(error => {
+        console.error('❌ Failed to clear native location watch:', error);
+      });
+    }
+  }
+
+  now(): number {
+    return performance.now();
+  }
+}
+
+/** Native location services inside the Capacitor shell, the browser API everywhere else */
+export const createDefaultLocationProvider = (): LocationProvider =>
+  Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('Geolocation')
+    ? new CapacitorLocationProvider()
+    : new BrowserLocationProvider();
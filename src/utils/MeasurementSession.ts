@@ -0,0 +1,374 @@
+// Headless measurement engine: arming, timing, distance, milestone detection and post-processing
+
+import { DataPoint, MultiPassInterpolator } from './DataProcessing';
+import {
+  Milestone,
+  MilestoneTime,
+  TimingResults,
+  createEmptyResults,
+  detectMilestones,
+  getFinalDistance,
+  interpolateMissingMilestones,
+} from './Milestones';
+import { AccelerometerSample, BrakingResult, analyzeBraking } from './BrakingAnalysis';
+import { TestMode } from './RunStore';
+import { applyRollout } from './Rollout';
+
+/**
+ * idle → armed (waiting for launch, or for the entry speed and brake onset)
+ *      → running (timing) → finished (no more input) → processed (result available)
+ */
+export type SessionPhase = 'idle' | 'armed' | 'running' | 'finished' | 'processed';
+
+/** What started the run: the accelerometer or the GPS speed trace */
+export type StartTrigger = 'sensor' | 'speed';
+
+export interface SessionConfig {
+  mode: TestMode;
+  milestones: Milestone[];
+  brakingEntrySpeed: number; // km/h, braking runs arm above it
+  rollout?: number;          // metres, standing starts are timed from this far after the first movement
+}
+
+/** One fix after filtering and sensor fusion, as delivered by the GPS pipeline */
+export interface SessionFix {
+  clock: number;         // location clock in milliseconds when the fix was handled
+  timestamp: number;     // epoch milliseconds reported with the fix
+  speed: number;         // fused speed in km/h
+  measuredSpeed: number; // speed in m/s before fusion, used to accumulate distance
+  latitude: number;
+  longitude: number;
+}
+
+export interface LiveState {
+  speed: number;    // km/h
+  elapsed: number;  // seconds on the run timer
+  distance: number; // metres covered since the timer started
+}
+
+export interface MeasurementResult {
+  mode: TestMode;
+  milestones: Milestone[];
+  brakingEntrySpeed: number | null; // km/h, braking runs only
+  times: TimingResults;
+  rollout: number;                  // metres, the rollout the times were taken with
+  braking: BrakingResult | null;
+  distance: number;
+  dataPoints: DataPoint[];
+  accelerometer: AccelerometerSample[];
+  complete: boolean; // enough was recorded for the run to be worth keeping
+}
+
+export type MeasurementEvents = {
+  phase: [phase: SessionPhase];
+  entrySpeedReached: [];                          // braking run armed above the entry speed
+  started: [trigger: StartTrigger, speed: number]; // the run began (launch or brake onset)
+  timerStarted: [];
+  update: [state: LiveState];
+  sample: [point: DataPoint];
+  milestone: [id: string, result: MilestoneTime];
+  processed: [result: MeasurementResult];
+};
+
+type Listener<E extends keyof MeasurementEvents> = (...args: MeasurementEvents[E]) => void;
+type AnyListener = (...args: unknown[]) => void;
+
+// Fallback launch detection when the accelerometer misses it
+const LAUNCH_SPEED = 5; // km/h
+// Fallback brake onset: this far below the entry speed without a sensor trigger
+const BRAKING_FALLBACK_MARGIN = 10; // km/h
+// Recording continues this long past the final distance so post-run passes can still place it
+const FINISH_MARGIN = 1; // seconds
+
+/**
+ * A single acceleration or braking run, independent of React. Fixes and sensor
+ * triggers go in; phase changes, live values, milestones and the processed result
+ * come out as events. All state lives on the instance, so handlers never see stale values.
+ */
+export class MeasurementSession {
+  private _phase: SessionPhase = 'idle';
+  private config: SessionConfig | null = null;
+  private readonly listeners = new Map<keyof MeasurementEvents, Set<AnyListener>>();
+  private readonly interpolator = new MultiPassInterpolator();
+
+  private startTime: number | null = null;
+  private entrySpeedReached = false;
+  private speed = 0;
+  private elapsed = 0;
+  private distance = 0;
+  private dataPoints: DataPoint[] = [];
+  private times: TimingResults = {};
+  private lastFix: SessionFix | null = null;
+  private braking = false;
+  private finishAt: number | null = null; // elapsed time recording stops at, once the final distance is covered
+  private result: MeasurementResult | null = null;
+
+  /** @param now clock for sensor triggers, the same one fixes are stamped with */
+  constructor(private readonly now: () => number) {}
+
+  get phase(): SessionPhase {
+    return this._phase;
+  }
+
+  /** Clock time the run timer started, or null before it has */
+  get timerStart(): number | null {
+    return this.startTime;
+  }
+
+  get isEntrySpeedReached(): boolean {
+    return this.entrySpeedReached;
+  }
+
+  getResult(): MeasurementResult | null {
+    return this.result;
+  }
+
+  /** Subscribes to an event; returns the function that unsubscribes */
+  on<E extends keyof MeasurementEvents>(event: E, listener: Listener<E>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set<AnyListener>();
+    listeners.add(listener as AnyListener);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(listener as AnyListener);
+    };
+  }
+
+  private emit<E extends keyof MeasurementEvents>(event: E, ...args: MeasurementEvents[E]) {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+
+  private setPhase(phase: SessionPhase) {
+    this._phase = phase;
+    console.log('🎛️ Measurement session:', phase);
+    this.emit('phase', phase);
+  }
+
+  /** Prepares a new run; only possible while no other run is in progress */
+  arm(config: SessionConfig) {
+    if (this._phase === 'armed' || this._phase === 'running') return;
+
+    this.clear();
+    this.config = config;
+    this.times = createEmptyResults(config.milestones);
+    this.setPhase('armed');
+  }
+
+  /** Launch detected by the accelerometer (acceleration runs) */
+  launch(trigger: StartTrigger = 'sensor') {
+    if (this._phase !== 'armed' || this.config?.mode !== 'acceleration') return;
+
+    console.log('🚀 Launch detected via', trigger);
+    this.setPhase('running');
+    this.emit('started', trigger, this.speed);
+  }
+
+  /** Brake onset detected by the accelerometer (braking runs) */
+  brakeOnset() {
+    this.beginBraking(this.now(), this.speed, 'sensor');
+  }
+
+  private beginBraking(start: number, entrySpeed: number, trigger: StartTrigger) {
+    if (this._phase !== 'armed' || this.config?.mode !== 'braking' || !this.entrySpeedReached) return;
+
+    console.log('🛑 Brake onset at', entrySpeed.toFixed(1), 'km/h via', trigger);
+    this.braking = true;
+    this.startTimer(start, entrySpeed);
+    this.setPhase('running');
+    this.emit('started', trigger, entrySpeed);
+  }
+
+  /** Feeds one processed fix through arming, timing and milestone detection */
+  pushFix(fix: SessionFix) {
+    const config = this.config;
+    const previous = this.lastFix;
+    this.lastFix = fix;
+    this.speed = fix.speed;
+
+    if (!config || this._phase === 'idle' || this._phase === 'finished' || this._phase === 'processed') {
+      this.emit('update', this.getLiveState());
+      return;
+    }
+
+    if (config.mode === 'braking' && this._phase === 'armed') {
+      if (!this.entrySpeedReached && fix.speed >= config.brakingEntrySpeed) {
+        console.log('🎯 Braking test armed at', fix.speed.toFixed(1), 'km/h');
+        this.entrySpeedReached = true;
+        this.emit('entrySpeedReached');
+      } else if (this.entrySpeedReached && fix.speed < config.brakingEntrySpeed - BRAKING_FALLBACK_MARGIN) {
+        // The accelerometer missed the onset: time from the last fix above the entry speed
+        this.beginBraking(previous?.clock ?? fix.clock, previous?.speed ?? fix.speed, 'speed');
+      }
+    }
+
+    if (config.mode === 'acceleration' && this._phase === 'armed' && fix.speed > LAUNCH_SPEED) {
+      this.launch('speed');
+    }
+
+    if (this._phase === 'running') {
+      if (this.startTime === null) {
+        // Acceleration runs are timed from the first fix that registers movement
+        if (fix.speed > 0) this.startTimer(fix.clock, fix.speed);
+      } else {
+        this.record(fix, previous);
+      }
+    }
+
+    this.emit('update', this.getLiveState());
+
+    if (this._phase === 'running' && this.startTime !== null) {
+      this.checkFinished(config);
+    }
+  }
+
+  /**
+   * Speed from the fusion filter between GPS fixes, so milestones are timed at the sensor
+   * rate rather than the fix rate. Distance advances only with fixes; samples extrapolate
+   * it from the last fix for distance targets.
+   */
+  pushSpeedSample(clock: number, speed: number) {
+    const config = this.config;
+    const lastFix = this.lastFix;
+    if (!config || this._phase !== 'running' || this.startTime === null || !lastFix || clock <= lastFix.clock) return;
+
+    const elapsed = (clock - this.startTime) / 1000;
+    const lastPoint = this.dataPoints[this.dataPoints.length - 1];
+    if (lastPoint && elapsed <= lastPoint.time) return;
+
+    this.speed = speed;
+    this.elapsed = elapsed;
+    this.addPoint({ time: elapsed, speed });
+    this.detectMilestones(speed, this.distance + speed / 3.6 * (clock - lastFix.clock) / 1000);
+
+    this.emit('update', this.getLiveState());
+    this.checkFinished(config);
+  }
+
+  /** Ends the run; the finished phase is the cue to collect sensor logs and call process() */
+  stop() {
+    if (this._phase !== 'armed' && this._phase !== 'running') return;
+    this.setPhase('finished');
+  }
+
+  /** Post-processes the finished run into its result */
+  process(accelerometer: AccelerometerSample[] = []): MeasurementResult | null {
+    if (this._phase !== 'finished' || !this.config) return null;
+
+    const { mode, milestones, brakingEntrySpeed, rollout = 0 } = this.config;
+    let times = mode === 'braking' ? {} : this.times;
+    let braking: BrakingResult | null = null;
+
+    if (mode === 'braking') {
+      braking = this.braking ? analyzeBraking(this.dataPoints, accelerometer) : null;
+    } else if (this.dataPoints.length >= 4) {
+      // Advanced post-processing with multi-pass interpolation
+      try {
+        console.log('Starting advanced post-processing with', this.dataPoints.length, 'data points');
+        times = interpolateMissingMilestones(milestones, times, this.dataPoints, this.interpolator);
+      } catch (error) {
+        console.error('Post-processing interpolation failed:', error);
+      }
+    }
+
+    this.times = times;
+    this.result = {
+      mode,
+      milestones,
+      brakingEntrySpeed: mode === 'braking' ? brakingEntrySpeed : null,
+      times: mode === 'braking' ? times : applyRollout(milestones, times, this.dataPoints, rollout),
+      rollout: mode === 'braking' ? 0 : rollout,
+      braking,
+      distance: this.distance,
+      dataPoints: [...this.dataPoints],
+      accelerometer,
+      complete: mode === 'braking' ? braking !== null : this.dataPoints.length >= 2,
+    };
+
+    this.setPhase('processed');
+    this.emit('processed', this.result);
+    return this.result;
+  }
+
+  /** Discards the current run, stopping it first if needed */
+  reset() {
+    if (this._phase === 'armed' || this._phase === 'running') {
+      this.stop();
+    }
+    this.clear();
+    this.config = null;
+    if (this._phase !== 'idle') this.setPhase('idle');
+  }
+
+  getLiveState(): LiveState {
+    return { speed: this.speed, elapsed: this.elapsed, distance: this.distance };
+  }
+
+  private clear() {
+    this.startTime = null;
+    this.entrySpeedReached = false;
+    this.elapsed = 0;
+    this.distance = 0;
+    this.dataPoints = [];
+    this.times = {};
+    this.braking = false;
+    this.finishAt = null;
+    this.result = null;
+  }
+
+  private startTimer(start: number, speed: number) {
+    console.log('⏰ Timer started at', speed.toFixed(2), 'km/h');
+    this.startTime = start;
+    this.elapsed = 0;
+    this.distance = 0;
+    this.addPoint({ time: 0, speed });
+    this.emit('timerStarted');
+  }
+
+  private record(fix: SessionFix, previous: SessionFix | null) {
+    this.elapsed = (fix.clock - this.startTime) / 1000;
+    if (previous) {
+      this.distance += fix.measuredSpeed * (fix.timestamp - previous.timestamp) / 1000;
+    }
+    this.addPoint({ time: this.elapsed, speed: fix.speed });
+    this.detectMilestones(fix.speed, this.distance);
+  }
+
+  private detectMilestones(speed: number, distance: number) {
+    if (this.config.mode !== 'acceleration') return;
+
+    const reached = detectMilestones(
+      this.config.milestones,
+      this.times,
+      { time: this.elapsed, speed, distance },
+      this.dataPoints,
+      this.interpolator
+    );
+    // Times are kept from the first movement; listeners get them from the rollout point
+    const shifted = applyRollout(this.config.milestones, reached, this.dataPoints, this.config.rollout ?? 0);
+    Object.entries(reached).forEach(([id, result]) => {
+      this.times = { ...this.times, [id]: result };
+      if (shifted[id]) this.emit('milestone', id, shifted[id]);
+    });
+  }
+
+  private addPoint(point: DataPoint) {
+    this.dataPoints.push(point);
+    this.emit('sample', point);
+  }
+
+  private checkFinished(config: SessionConfig) {
+    if (config.mode === 'acceleration') {
+      // The run is over shortly after the furthest distance target has been covered from the rollout point
+      const finalDistance = getFinalDistance(config.milestones);
+      if (finalDistance !== null && this.finishAt === null && this.distance >= finalDistance + (config.rollout ?? 0)) {
+        this.finishAt = this.elapsed + FINISH_MARGIN;
+      }
+      if (this.finishAt !== null && this.elapsed >= this.finishAt) {
+        this.stop();
+      }
+    } else if (this.dataPoints.length >= 2 && this.dataPoints[this.dataPoints.length - 1].speed <= 0) {
+      // Braking runs end as soon as the vehicle reaches a standstill
+      console.log('🛑 Standstill reached - finishing braking test');
+      this.stop();
+    }
+  }
+}
@@ -0,0 +1,341 @@
+// Declarative milestone registry: speed targets, distance targets and rolling speed ranges
+
+import { DataPoint, MultiPassInterpolator } from './DataProcessing';
+import {
+  UnitSystem,
+  KMH_PER_MPH,
+  METERS_PER_FOOT,
+  METERS_PER_MILE,
+  distanceUnit,
+  formatSpeed,
+  fromDisplayDistance,
+  fromDisplaySpeed,
+  speedUnit,
+} from './Units';
+
+export type MilestoneKind = 'speed' | 'distance' | 'range';
+
+interface MilestoneBase {
+  id: string;
+  label: string;
+  color: string;
+  custom?: boolean;
+}
+
+/** Standing-start speed target, timed from launch (e.g. 0-100 km/h) */
+export interface SpeedMilestone extends MilestoneBase {
+  kind: 'speed';
+  speed: number; // km/h
+}
+
+/** Standing-start distance target, timed from launch (e.g. 1/4 mile) */
+export interface DistanceMilestone extends MilestoneBase {
+  kind: 'distance';
+  distance: number; // metres
+}
+
+/** Rolling speed range, timed from the lower to the upper speed crossing (e.g. 80-120 km/h) */
+export interface RangeMilestone extends MilestoneBase {
+  kind: 'range';
+  from: number; // km/h
+  to: number;   // km/h
+}
+
+export type Milestone = SpeedMilestone | DistanceMilestone | RangeMilestone;
+
+export interface MilestoneTime {
+  time: number;  // the result in seconds (interval duration for ranges)
+  start: number; // elapsed time the milestone's timing began (0 for standing starts)
+  end: number;   // elapsed time the target was reached
+}
+
+export type TimingResults = Record<string, MilestoneTime | null>;
+
+export interface MilestoneSample {
+  time: number;     // elapsed seconds
+  speed: number;    // km/h
+  distance: number; // metres
+}
+
+const CUSTOM_COLORS = [
+  'hsl(15 90% 60%)',
+  'hsl(90 60% 45%)',
+  'hsl(240 70% 65%)',
+  'hsl(340 80% 55%)',
+  'hsl(60 90% 45%)',
+];
+
+export const METRIC_MILESTONES: Milestone[] = [
+  { id: '0-30', kind: 'speed', speed: 30, label: '0-30 km/h', color: 'hsl(280 100% 70%)' },
+  { id: '0-60', kind: 'speed', speed: 60, label: '0-60 km/h', color: 'hsl(320 100% 65%)' },
+  { id: '0-100', kind: 'speed', speed: 100, label: '0-100 km/h', color: 'hsl(45 100% 60%)' },
+  { id: '0-200', kind: 'speed', speed: 200, label: '0-200 km/h', color: 'hsl(120 60% 50%)' },
+  { id: '0-250', kind: 'speed', speed: 250, label: '0-250 km/h', color: 'hsl(180 60% 50%)' },
+  { id: '0-300', kind: 'speed', speed: 300, label: '0-300 km/h', color: 'hsl(300 60% 50%)' },
+  { id: 'quarterMile', kind: 'distance', distance: 402.336, label: '1/4 Mile', color: 'hsl(30 100% 55%)' },
+  { id: 'halfMile', kind: 'distance', distance: 804.672, label: '1/2 Mile', color: 'hsl(0 70% 50%)' },
+  { id: '60-100', kind: 'range', from: 60, to: 100, label: '60-100 km/h', color: 'hsl(200 100% 50%)' },
+  { id: '80-120', kind: 'range', from: 80, to: 120, label: '80-120 km/h', color: 'hsl(170 80% 40%)' },
+  { id: '100-200', kind: 'range', from: 100, to: 200, label: '100-200 km/h', color: 'hsl(260 70% 60%)' },
+];
+
+// US drag-strip and magazine targets
+export const IMPERIAL_MILESTONES: Milestone[] = [
+  { id: '0-30mph', kind: 'speed', speed: 30 * KMH_PER_MPH, label: '0-30 mph', color: 'hsl(280 100% 70%)' },
+  { id: '0-60mph', kind: 'speed', speed: 60 * KMH_PER_MPH, label: '0-60 mph', color: 'hsl(320 100% 65%)' },
+  { id: '0-100mph', kind: 'speed', speed: 100 * KMH_PER_MPH, label: '0-100 mph', color: 'hsl(45 100% 60%)' },
+  { id: '0-150mph', kind: 'speed', speed: 150 * KMH_PER_MPH, label: '0-150 mph', color: 'hsl(120 60% 50%)' },
+  { id: '60ft', kind: 'distance', distance: 60 * METERS_PER_FOOT, label: '60 ft', color: 'hsl(180 60% 50%)' },
+  { id: '330ft', kind: 'distance', distance: 330 * METERS_PER_FOOT, label: '330 ft', color: 'hsl(300 60% 50%)' },
+  { id: 'eighthMile', kind: 'distance', distance: METERS_PER_MILE / 8, label: '1/8 Mile', color: 'hsl(15 90% 60%)' },
+  { id: '1000ft', kind: 'distance', distance: 1000 * METERS_PER_FOOT, label: '1000 ft', color: 'hsl(90 60% 45%)' },
+  { id: 'quarterMile', kind: 'distance', distance: 402.336, label: '1/4 Mile', color: 'hsl(30 100% 55%)' },
+  { id: 'halfMile', kind: 'distance', distance: 804.672, label: '1/2 Mile', color: 'hsl(0 70% 50%)' },
+  { id: '30-50mph', kind: 'range', from: 30 * KMH_PER_MPH, to: 50 * KMH_PER_MPH, label: '30-50 mph', color: 'hsl(200 100% 50%)' },
+  { id: '50-70mph', kind: 'range', from: 50 * KMH_PER_MPH, to: 70 * KMH_PER_MPH, label: '50-70 mph', color: 'hsl(170 80% 40%)' },
+  { id: '60-100mph', kind: 'range', from: 60 * KMH_PER_MPH, to: 100 * KMH_PER_MPH, label: '60-100 mph', color: 'hsl(260 70% 60%)' },
+];
+
+// Drag-strip increments timed on every drag run, whatever the unit system
+const DRAG_INCREMENTS = ['60ft', '330ft', 'eighthMile', '1000ft', 'quarterMile'];
+export const DRAG_MILESTONES: Milestone[] = IMPERIAL_MILESTONES.filter(m => DRAG_INCREMENTS.includes(m.id));
+
+export const getDefaultMilestones = (system: UnitSystem): Milestone[] =>
+  system === 'imperial' ? IMPERIAL_MILESTONES : METRIC_MILESTONES;
+
+/**
+ * Builds a user-defined milestone from values entered in the given unit system. Targets are
+ * stored in km/h and metres; the label keeps the units the user typed. Ids are derived from
+ * the target so the same target cannot be registered twice.
+ */
+export const createCustomMilestone = (
+  kind: MilestoneKind,
+  values: { target?: number; from?: number; to?: number },
+  index: number,
+  system: UnitSystem = 'metric'
+): Milestone => {
+  const color = CUSTOM_COLORS[index % CUSTOM_COLORS.length];
+  const unit = speedUnit(system);
+
+  switch (kind) {
+    case 'speed':
+      return {
+        id: `custom-speed-${values.target}${unit}`,
+        kind,
+        speed: fromDisplaySpeed(values.target, system),
+        label: `0-${values.target} ${unit}`,
+        color,
+        custom: true,
+      };
+    case 'distance':
+      return {
+        id: `custom-distance-${values.target}${distanceUnit(system)}`,
+        kind,
+        distance: fromDisplayDistance(values.target, system),
+        label: `0-${values.target} ${distanceUnit(system)}`,
+        color,
+        custom: true,
+      };
+    case 'range':
+      return {
+        id: `custom-range-${values.from}-${values.to}${unit}`,
+        kind,
+        from: fromDisplaySpeed(values.from, system),
+        to: fromDisplaySpeed(values.to, system),
+        label: `${values.from}-${values.to} ${unit}`,
+        color,
+        custom: true,
+      };
+  }
+};
+
+export const createEmptyResults = (milestones: Milestone[]): TimingResults =>
+  Object.fromEntries(milestones.map(m => [m.id, null]));
+
+export const getMilestoneToastTitle = (milestone: Milestone, system: UnitSystem = 'metric'): string =>
+  milestone.kind === 'speed' ? `${formatSpeed(milestone.speed, system)} Reached!` : `${milestone.label} Complete!`;
+
+/** The furthest distance target; an acceleration run ends shortly after reaching it */
+export const getFinalDistance = (milestones: Milestone[]): number | null => {
+  const distances = milestones.filter((m): m is DistanceMilestone => m.kind === 'distance').map(m => m.distance);
+  return distances.length > 0 ? Math.max(...distances) : null;
+};
+
+/**
+ * Finds the time at which the speed trace first rises through targetSpeed after a given time.
+ * The raw crossing between two GPS samples is refined with the multi-pass interpolator over
+ * the neighbouring samples, falling back to linear interpolation if the refinement lands
+ * outside the bracketing samples.
+ */
+export const findUpwardCrossing = (
+  data: DataPoint[],
+  targetSpeed: number,
+  after: number = -Infinity,
+  interpolator: MultiPassInterpolator = new MultiPassInterpolator()
+): number | null => {
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const next = data[i];
+
+    if (next.time <= after) continue;
+    if (!(prev.speed < targetSpeed && next.speed >= targetSpeed)) continue;
+
+    const linear = prev.time + (targetSpeed - prev.speed) / (next.speed - prev.speed) * (next.time - prev.time);
+
+    const window = data.slice(Math.max(0, i - 3), i + 3);
+    const refined = interpolator.findTimeForSpeed(window, targetSpeed);
+    if (refined !== null && refined >= prev.time && refined <= next.time && refined > after) {
+      return refined;
+    }
+
+    return linear > after ? linear : next.time;
+  }
+
+  return null;
+};
+
+/**
+ * Finds the time a target distance was covered by integrating the speed trace
+ * (trapezoidal rule) and interpolating linearly within the crossing segment.
+ */
+export const findTimeForDistance = (data: DataPoint[], targetDistance: number): number | null => {
+  let distance = 0;
+
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const next = data[i];
+    const segment = ((prev.speed + next.speed) / 2 / 3.6) * (next.time - prev.time);
+
+    if (segment > 0 && distance + segment >= targetDistance) {
+      const ratio = (targetDistance - distance) / segment;
+      return prev.time + ratio * (next.time - prev.time);
+    }
+    distance += segment;
+  }
+
+  return null;
+};
+
+/** Speed at a time on a trace, interpolated linearly */
+export const speedAt = (points: DataPoint[], time: number): number | null => {
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].time >= time) {
+      const prev = points[i - 1];
+      const next = points[i];
+      const span = next.time - prev.time;
+      return span > 0 ? prev.speed + (next.speed - prev.speed) * (time - prev.time) / span : next.speed;
+    }
+  }
+  return null;
+};
+
+const findRangeTime = (
+  data: DataPoint[],
+  milestone: RangeMilestone,
+  interpolator: MultiPassInterpolator
+): MilestoneTime | null => {
+  const start = findUpwardCrossing(data, milestone.from, -Infinity, interpolator);
+  if (start === null) return null;
+
+  const end = findUpwardCrossing(data, milestone.to, start, interpolator);
+  if (end === null) return null;
+
+  return { time: end - start, start, end };
+};
+
+/**
+ * Live detection: returns the milestones newly reached by the latest sample.
+ * Speed and distance targets take the elapsed time of the sample that reached them;
+ * ranges are located on the speed trace so both crossings are interpolated.
+ */
+export const detectMilestones = (
+  milestones: Milestone[],
+  results: TimingResults,
+  sample: MilestoneSample,
+  data: DataPoint[],
+  interpolator: MultiPassInterpolator
+): Record<string, MilestoneTime> => {
+  const reached: Record<string, MilestoneTime> = {};
+
+  for (const milestone of milestones) {
+    if (results[milestone.id]) continue;
+
+    switch (milestone.kind) {
+      case 'speed':
+        if (sample.speed >= milestone.speed) {
+          reached[milestone.id] = { time: sample.time, start: 0, end: sample.time };
+        }
+        break;
+      case 'distance':
+        if (sample.distance >= milestone.distance) {
+          reached[milestone.id] = { time: sample.time, start: 0, end: sample.time };
+        }
+        break;
+      case 'range': {
+        const rangeTime = data.length >= 2 ? findRangeTime(data, milestone, interpolator) : null;
+        if (rangeTime) reached[milestone.id] = rangeTime;
+        break;
+      }
+    }
+  }
+
+  return reached;
+};
+
+/**
+ * Post-processing: fills in every milestone that was missed live by interpolating the
+ * recorded speed trace. Speed targets are refined around their first upward crossing,
+ * as live detection does, and distance targets integrate the trace.
+ */
+export const interpolateMissingMilestones = (
+  milestones: Milestone[],
+  results: TimingResults,
+  data: DataPoint[],
+  interpolator: MultiPassInterpolator
+): TimingResults => {
+  const filled: TimingResults = { ...results };
+
+  for (const milestone of milestones) {
+    if (filled[milestone.id]) continue;
+
+    let result: MilestoneTime | null = null;
+
+    if (milestone.kind === 'speed') {
+      const time = findUpwardCrossing(data, milestone.speed, -Infinity, interpolator);
+      if (time !== null) result = { time, start: 0, end: time };
+    } else if (milestone.kind === 'distance') {
+      const time = findTimeForDistance(data, milestone.distance);
+      if (time !== null) result = { time, start: 0, end: time };
+    } else if (milestone.kind === 'range') {
+      result = findRangeTime(data, milestone, interpolator);
+    }
+
+    filled[milestone.id] = result;
+  }
+
+  return filled;
+};
+
+/**
+ * The rolling range currently being timed: its lower bound has been crossed
+ * but the upper bound has not been reached yet.
+ */
+export const findActiveRange = (
+  milestones: Milestone[],
+  results: TimingResults,
+  data: DataPoint[],
+  interpolator: MultiPassInterpolator
+): { milestone: RangeMilestone; start: number } | null => {
+  let active: { milestone: RangeMilestone; start: number } | null = null;
+
+  for (const milestone of milestones) {
+    if (milestone.kind !== 'range' || results[milestone.id]) continue;
+
+    const start = findUpwardCrossing(data, milestone.from, -Infinity, interpolator);
+    if (start !== null && (!active || start > active.start)) {
+      active = { milestone, start };
+    }
+  }
+
+  return active;
+};
@@ -0,0 +1,140 @@
+// Phone mounting calibration: rotates device-frame accelerometer readings into the vehicle frame
+
+import { STANDARD_GRAVITY } from './BrakingAnalysis';
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Acceleration in the vehicle frame, gravity excluded */
+export interface VehicleAcceleration {
+  longitudinal: number; // m/s², positive when speeding up
+  lateral: number;      // m/s², positive towards the left
+  vertical: number;     // m/s², positive upwards
+}
+
+// uncalibrated → levelled (gravity known) → calibrated (forward axis known)
+export type CalibrationState = 'uncalibrated' | 'levelled' | 'calibrated';
+
+// About a second of readings at 50 Hz while GPS reports a standstill
+const STATIONARY_SAMPLES = 50;
+// Readings this far from 1 g include motion and are left out of the gravity estimate
+const GRAVITY_TOLERANCE = 1.0; // m/s²
+// A new gravity estimate this far from the last one means the phone was moved
+const REMOUNT_ANGLE = 10; // degrees
+
+// Horizontal readings weaker than this are mostly noise and carry no direction
+const MIN_HORIZONTAL = 0.5;  // m/s²
+const FORWARD_SAMPLES = 25;  // readings needed to fix the forward axis
+const FORWARD_DISTANCE = 20; // metres of acceleration the forward axis is learnt over
+
+const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const scale = (a: Vector3, s: number): Vector3 => ({ x: a.x * s, y: a.y * s, z: a.z * s });
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const length = (a: Vector3): number => Math.sqrt(dot(a, a));
+const normalize = (a: Vector3): Vector3 => scale(a, 1 / length(a));
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+const ZERO: Vector3 = { x: 0, y: 0, z: 0 };
+
+/**
+ * Learns how the phone sits in the vehicle. While GPS reports a standstill the averaged
+ * reading including gravity gives the up axis; the first metres of GPS-confirmed
+ * acceleration then give the forward axis as the mean horizontal acceleration. Together
+ * they form the rotation from device to vehicle axes (forward, left, up).
+ */
+export class MountingCalibration {
+  private up: Vector3 | null = null;
+  private forward: Vector3 | null = null;
+  private left: Vector3 | null = null;
+  private gravitySum: Vector3 = ZERO;
+  private gravityCount = 0;
+  private forwardSum: Vector3 = ZERO;
+  private forwardCount = 0;
+  private forwardDistance = 0;
+
+  get state(): CalibrationState {
+    if (this.forward) return 'calibrated';
+    return this.up ? 'levelled' : 'uncalibrated';
+  }
+
+  /** Feeds a reading including gravity, taken while GPS reports a standstill */
+  addStationarySample(includingGravity: Vector3) {
+    if (Math.abs(length(includingGravity) - STANDARD_GRAVITY) > GRAVITY_TOLERANCE) return;
+
+    this.gravitySum = add(this.gravitySum, includingGravity);
+    this.gravityCount++;
+    if (this.gravityCount < STATIONARY_SAMPLES) return;
+
+    const up = normalize(this.gravitySum);
+    this.gravitySum = ZERO;
+    this.gravityCount = 0;
+
+    // Each stop refreshes the up axis; a large change means the forward axis must be relearnt
+    if (this.up && Math.acos(Math.min(1, dot(this.up, up))) * 180 / Math.PI > REMOUNT_ANGLE) {
+      console.log('📱 Phone mounting changed - relearning the forward axis');
+      this.resetForward();
+    }
+    this.up = up;
+  }
+
+  /**
+   * Feeds a reading without gravity, taken while GPS confirms the vehicle is speeding up,
+   * together with the distance covered since the previous reading.
+   */
+  addAccelerationSample(linear: Vector3, distance: number) {
+    if (!this.up || this.forward) return;
+
+    const horizontal = subtract(linear, scale(this.up, dot(linear, this.up)));
+    if (length(horizontal) < MIN_HORIZONTAL) return;
+
+    this.forwardSum = add(this.forwardSum, horizontal);
+    this.forwardCount++;
+    this.forwardDistance += distance;
+
+    if (this.forwardCount >= FORWARD_SAMPLES && this.forwardDistance >= FORWARD_DISTANCE) {
+      this.forward = normalize(this.forwardSum);
+      this.left = cross(this.up, this.forward);
+      console.log('📱 Mounting calibrated:', { up: this.up, forward: this.forward });
+    }
+  }
+
+  /** Rotates a reading without gravity into the vehicle frame, once calibrated */
+  toVehicleFrame(linear: Vector3): VehicleAcceleration | null {
+    if (!this.up || !this.forward || !this.left) return null;
+
+    return {
+      longitudinal: dot(linear, this.forward),
+      lateral: dot(linear, this.left),
+      vertical: dot(linear, this.up),
+    };
+  }
+
+  /** Acceleration in the road plane, ignoring bumps; available once levelled */
+  horizontalMagnitude(linear: Vector3): number | null {
+    if (!this.up) return null;
+    return length(subtract(linear, scale(this.up, dot(linear, this.up))));
+  }
+
+  reset() {
+    this.up = null;
+    this.gravitySum = ZERO;
+    this.gravityCount = 0;
+    this.resetForward();
+  }
+
+  private resetForward() {
+    this.forward = null;
+    this.left = null;
+    this.forwardSum = ZERO;
+    this.forwardCount = 0;
+    this.forwardDistance = 0;
+  }
+}
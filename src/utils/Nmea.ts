@@ -0,0 +1,277 @@
+// NMEA 0183 parsing for external GNSS receivers and recorded .nmea logs
+
+import { RawFix } from './RunStore';
+import { GnssPosition } from './LocationProvider';
+
+const KNOTS_TO_MS = 0.514444;
+
+/**
+ * NMEA gives no accuracy in metres, only dilution of precision. Horizontal accuracy is
+ * estimated as HDOP times a typical user equivalent range error for consumer receivers.
+ */
+export const NMEA_UERE = 5; // metres
+
+export type NmeaSentence =
+  | { type: 'RMC'; time: string; date: string; valid: boolean; latitude: number | null; longitude: number | null; speedKnots: number | null; course: number | null }
+  | { type: 'GGA'; time: string; latitude: number | null; longitude: number | null; quality: number; satellites: number | null; hdop: number | null; altitude: number | null }
+  | { type: 'VTG'; course: number | null; speedKmh: number | null }
+  | { type: 'GSA'; fixType: number; prns: number[]; pdop: number | null; hdop: number | null; vdop: number | null }
+  | { type: 'GSV'; talker: string; totalMessages: number; messageNumber: number; satellitesInView: number };
+
+const checksumValid = (sentence: string): boolean => {
+  const star = sentence.indexOf('*');
+  if (star < 0) return true; // checksum is optional in NMEA 0183
+
+  let checksum = 0;
+  for (let i = 1; i < star; i++) {
+    checksum ^= sentence.charCodeAt(i);
+  }
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16);
+};
+
+const toNumber = (field: string | undefined): number | null => {
+  if (field === undefined || field === '') return null;
+  const value = Number(field);
+  return Number.isFinite(value) ? value : null;
+};
+
+// ddmm.mmmm / dddmm.mmmm with hemisphere to signed decimal degrees
+const toDegrees = (field: string, hemisphere: string): number | null => {
+  const value = toNumber(field);
+  if (value === null) return null;
+  const degrees = Math.floor(value / 100);
+  const decimal = degrees + (value - degrees * 100) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+};
+
+/** Parses one sentence, returning null for unsupported types and corrupt lines */
+export const parseNmeaSentence = (line: string): NmeaSentence | null => {
+  const sentence = line.trim();
+  if (!sentence.startsWith('$') || !checksumValid(sentence)) return null;
+
+  const body = sentence.slice(1).split('*')[0];
+  const fields = body.split(',');
+  const address = fields[0];
+  const talker = address.slice(0, 2);
+  const type = address.slice(2);
+
+  switch (type) {
+    case 'RMC':
+      return {
+        type,
+        time: fields[1],
+        date: fields[9] ?? '',
+        valid: fields[2] === 'A',
+        latitude: toDegrees(fields[3], fields[4]),
+        longitude: toDegrees(fields[5], fields[6]),
+        speedKnots: toNumber(fields[7]),
+        course: toNumber(fields[8]),
+      };
+    case 'GGA':
+      return {
+        type,
+        time: fields[1],
+        latitude: toDegrees(fields[2], fields[3]),
+        longitude: toDegrees(fields[4], fields[5]),
+        quality: toNumber(fields[6]) ?? 0,
+        satellites: toNumber(fields[7]),
+        hdop: toNumber(fields[8]),
+        altitude: toNumber(fields[9]),
+      };
+    case 'VTG':
+      return {
+        type,
+        course: toNumber(fields[1]),
+        speedKmh: toNumber(fields[7]),
+      };
+    case 'GSA':
+      return {
+        type,
+        fixType: toNumber(fields[2]) ?? 1,
+        prns: fields.slice(3, 15).map(toNumber).filter((prn): prn is number => prn !== null),
+        pdop: toNumber(fields[15]),
+        hdop: toNumber(fields[16]),
+        vdop: toNumber(fields[17]),
+      };
+    case 'GSV':
+      return {
+        type,
+        talker,
+        totalMessages: toNumber(fields[1]) ?? 1,
+        messageNumber: toNumber(fields[2]) ?? 1,
+        satellitesInView: toNumber(fields[3]) ?? 0,
+      };
+    default:
+      return null;
+  }
+};
+
+// hhmmss.ss to milliseconds of the UTC day
+const timeOfDay = (time: string): number | null => {
+  if (time.length < 6) return null;
+  const hours = Number(time.slice(0, 2));
+  const minutes = Number(time.slice(2, 4));
+  const seconds = Number(time.slice(4));
+  if (![hours, minutes, seconds].every(Number.isFinite)) return null;
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+};
+
+// ddmmyy to midnight UTC
+const utcDay = (date: string): number | null => {
+  if (date.length !== 6) return null;
+  const day = Number(date.slice(0, 2));
+  const month = Number(date.slice(2, 4));
+  const year = 2000 + Number(date.slice(4, 6));
+  return [day, month, year].every(Number.isFinite) ? Date.UTC(year, month - 1, day) : null;
+};
+
+const todayUtc = (): number => {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+};
+
+interface Epoch {
+  time: string;
+  rmc?: Extract<NmeaSentence, { type: 'RMC' }>;
+  gga?: Extract<NmeaSentence, { type: 'GGA' }>;
+  vtg?: Extract<NmeaSentence, { type: 'VTG' }>;
+  gsaPrns: number[];
+  gsaHdop: number | null;
+  emitted: boolean;
+}
+
+/**
+ * Combines the sentences a receiver sends for one epoch into a single position.
+ * Sentences are grouped by their UTC time tag; untimed sentences (VTG, GSA) belong to
+ * the epoch in progress. An epoch is emitted as soon as both RMC and GGA have arrived,
+ * or when the next epoch starts, so receivers that only send one of them still work.
+ */
+export class NmeaFixAssembler {
+  private epoch: Epoch | null = null;
+  private day: number | null = null;
+  private lastEmitted: { day: number; time: number } | null = null;
+  private satellitesInView = new Map<string, number>();
+
+  constructor(private readonly onPosition: (position: GnssPosition) => void) {}
+
+  push(line: string) {
+    const sentence = parseNmeaSentence(line);
+    if (!sentence) return;
+
+    if (sentence.type === 'GSV') {
+      if (sentence.messageNumber === 1) {
+        this.satellitesInView.set(sentence.talker, sentence.satellitesInView);
+      }
+      return;
+    }
+
+    if (sentence.type === 'RMC' || sentence.type === 'GGA') {
+      if (this.epoch && this.epoch.time !== sentence.time) {
+        this.flush();
+      }
+      if (!this.epoch) {
+        this.epoch = { time: sentence.time, gsaPrns: [], gsaHdop: null, emitted: false };
+      }
+      if (sentence.type === 'RMC') {
+        this.epoch.rmc = sentence;
+        this.day = utcDay(sentence.date) ?? this.day;
+      } else {
+        this.epoch.gga = sentence;
+      }
+    } else if (this.epoch) {
+      if (sentence.type === 'VTG') {
+        this.epoch.vtg = sentence;
+      } else {
+        this.epoch.gsaPrns.push(...sentence.prns);
+        this.epoch.gsaHdop = sentence.hdop ?? this.epoch.gsaHdop;
+      }
+    }
+
+    if (this.epoch?.rmc && this.epoch.gga && !this.epoch.emitted) {
+      this.emit(this.epoch);
+    }
+  }
+
+  /** Emits the epoch in progress, e.g. at the end of a log */
+  flush() {
+    if (this.epoch && !this.epoch.emitted) {
+      this.emit(this.epoch);
+    }
+    this.epoch = null;
+  }
+
+  private emit(epoch: Epoch) {
+    epoch.emitted = true;
+    const { rmc, gga, vtg } = epoch;
+
+    // No position without a valid fix
+    if (rmc && !rmc.valid) return;
+    if (gga && gga.quality === 0) return;
+
+    const latitude = gga?.latitude ?? rmc?.latitude;
+    const longitude = gga?.longitude ?? rmc?.longitude;
+    const time = timeOfDay(epoch.time);
+    if (latitude === null || latitude === undefined || longitude === null || longitude === undefined || time === null) return;
+
+    // Logs and streams that pass midnight without a new RMC date roll over to the next day
+    let day = this.day ?? todayUtc();
+    if (this.lastEmitted && this.lastEmitted.day === day && time < this.lastEmitted.time - 12 * 3600 * 1000) {
+      day += 24 * 3600 * 1000;
+      this.day = day;
+    }
+    this.lastEmitted = { day, time };
+
+    const speedKmh = vtg?.speedKmh ?? null;
+    const speed = speedKmh !== null
+      ? speedKmh / 3.6
+      : rmc?.speedKnots != null ? rmc.speedKnots * KNOTS_TO_MS : null;
+    const hdop = gga?.hdop ?? epoch.gsaHdop ?? undefined;
+    const satellites = gga?.satellites ?? (epoch.gsaPrns.length > 0 ? epoch.gsaPrns.length : undefined);
+    const inView = Array.from(this.satellitesInView.values()).reduce((sum, count) => sum + count, 0);
+
+    this.onPosition({
+      coords: {
+        latitude,
+        longitude,
+        altitude: gga?.altitude ?? null,
+        accuracy: hdop !== undefined ? hdop * NMEA_UERE : NaN,
+        altitudeAccuracy: null,
+        speed,
+        heading: vtg?.course ?? rmc?.course ?? null,
+      },
+      timestamp: day + time,
+      satellites,
+      satellitesInView: inView > 0 ? inView : undefined,
+      hdop,
+    });
+  }
+}
+
+/** Reads every fix from a recorded NMEA log */
+export const parseNmeaLog = (content: string): RawFix[] => {
+  const fixes: RawFix[] = [];
+  const assembler = new NmeaFixAssembler(position => {
+    fixes.push({
+      timestamp: position.timestamp,
+      time: null,
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      altitude: position.coords.altitude,
+      accuracy: Number.isFinite(position.coords.accuracy) ? position.coords.accuracy : null,
+      altitudeAccuracy: null,
+      speed: position.coords.speed,
+      heading: position.coords.heading,
+      satellites: position.satellites,
+      hdop: position.hdop,
+    });
+  });
+
+  content.split(/\r?\n/).forEach(line => assembler.push(line));
+  assembler.flush();
+
+  if (fixes.length === 0) {
+    throw new Error('No valid RMC or GGA fixes found in the NMEA log');
+  }
+
+  return fixes;
+};
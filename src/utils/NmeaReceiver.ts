@@ -0,0 +1,136 @@
+// External GNSS receiver connected over Web Serial, streaming NMEA 0183 at up to 25 Hz
+
+import { NmeaFixAssembler } from './Nmea';
+import { GnssPosition, LocationProvider, LocationProviderError } from './LocationProvider';
+
+// Minimal Web Serial typings - the API is not yet part of the TypeScript DOM library
+interface SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface SerialLike {
+  requestPort(): Promise<SerialPortLike>;
+}
+
+const getSerial = (): SerialLike | undefined =>
+  (navigator as Navigator & { serial?: SerialLike }).serial;
+
+export const isSerialSupported = (): boolean => getSerial() !== undefined;
+
+/** Common baud rates for 10 Hz and 25 Hz receivers */
+export const NMEA_BAUD_RATES = [9600, 38400, 115200, 230400, 460800];
+
+/** Receiver fixes should arrive many times a second; waiting longer than this means no fix */
+const FIRST_FIX_TIMEOUT = 15000;
+
+export class NmeaSerialReceiver implements LocationProvider {
+  readonly label = 'External receiver';
+  private port: SerialPortLike | null = null;
+  private reader: ReadableStreamDefaultReader<string> | null = null;
+  private readLoop: Promise<void> | null = null;
+  private listener: ((position: GnssPosition) => void) | null = null;
+  private waiting: ((position: GnssPosition) => void)[] = [];
+
+  get connected(): boolean {
+    return this.port !== null;
+  }
+
+  getUnavailableReason(): string | null {
+    if (!isSerialSupported()) return 'Web Serial is not supported in this browser';
+    if (!this.connected) return 'External receiver not connected';
+    return null;
+  }
+
+  /** The next fix the receiver sends */
+  getCurrentPosition(): Promise<GnssPosition> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.waiting = this.waiting.filter(waiter => waiter !== onFix);
+        reject({ code: 3, message: 'No fix from the external receiver' } as LocationProviderError);
+      }, FIRST_FIX_TIMEOUT);
+      const onFix = (position: GnssPosition) => {
+        clearTimeout(timeout);
+        resolve(position);
+      };
+      this.waiting.push(onFix);
+    });
+  }
+
+  /** Fixes are read continuously once connected; start and stop only gate their delivery */
+  start(onPosition: (position: GnssPosition) => void) {
+    this.listener = onPosition;
+  }
+
+  stop() {
+    this.listener = null;
+  }
+
+  now(): number {
+    return performance.now();
+  }
+
+  private deliver(position: GnssPosition) {
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(waiter => waiter(position));
+    this.listener?.(position);
+  }
+
+  /** Asks the user to pick a serial port and starts reading sentences from it */
+  async connect(baudRate: number = 115200): Promise<void> {
+    const serial = getSerial();
+    if (!serial) {
+      throw new Error('Web Serial is not supported in this browser');
+    }
+
+    const port = await serial.requestPort();
+    await port.open({ baudRate });
+    this.port = port;
+    console.log('🛰️ External receiver connected at', baudRate, 'baud');
+
+    const assembler = new NmeaFixAssembler(position => this.deliver(position));
+    const decoder = new TextDecoderStream();
+    port.readable.pipeTo(decoder.writable as WritableStream<Uint8Array>).catch(() => {
+      // The pipe breaks when the port closes or the device is unplugged
+    });
+    this.reader = decoder.readable.getReader();
+
+    this.readLoop = (async () => {
+      let buffer = '';
+      try {
+        for (;;) {
+          const { value, done } = await this.reader.read();
+          if (done) break;
+          buffer += value;
+          const lines = buffer.split(/\r?\n/);
+          buffer = lines.pop() ?? '';
+          lines.forEach(line => assembler.push(line));
+        }
+      } catch (error) {
+        console.error('❌ External receiver read error:', error);
+      } finally {
+        assembler.flush();
+      }
+    })();
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.port) return;
+
+    try {
+      await this.reader?.cancel();
+      await this.readLoop;
+      await this.port.close();
+    } catch (error) {
+      console.error('❌ Error closing external receiver:', error);
+    }
+
+    this.listener = null;
+    this.reader = null;
+    this.readLoop = null;
+    this.port = null;
+    console.log('🛰️ External receiver disconnected');
+  }
+}
@@ -0,0 +1,40 @@
+// Reconstructs what the live display showed at any moment of a stored run
+
+import { DataPoint } from './DataProcessing';
+import { TimingResults, speedAt } from './Milestones';
+import { StoredRun } from './RunStore';
+
+export interface ReplayFrame {
+  speed: number;            // km/h at the playhead
+  dataPoints: DataPoint[];  // trace recorded up to the playhead
+  times: TimingResults;     // milestones already reached at the playhead
+  accuracy: number | null;  // accuracy of the latest fix at the playhead (metres)
+  finished: boolean;
+}
+
+export const REPLAY_RATES = [0.25, 0.5, 1, 2, 4];
+
+export const getReplayDuration = (run: StoredRun): number =>
+  run.dataPoints.length > 0 ? run.dataPoints[run.dataPoints.length - 1].time : 0;
+
+export const getReplayFrame = (run: StoredRun, time: number): ReplayFrame => {
+  const duration = getReplayDuration(run);
+  const finished = time >= duration;
+
+  const dataPoints = run.dataPoints.filter(p => p.time <= time);
+
+  const times: TimingResults = Object.fromEntries(
+    Object.entries(run.times).map(([id, result]) => [id, result && result.end <= time ? result : null])
+  );
+
+  const fixes = run.rawFixes.filter(fix => fix.time !== null && fix.time <= time);
+  const accuracy = fixes.length > 0 ? fixes[fixes.length - 1].accuracy : null;
+
+  return {
+    speed: speedAt(run.dataPoints, time) ?? run.dataPoints[run.dataPoints.length - 1]?.speed ?? 0,
+    dataPoints,
+    times,
+    accuracy,
+    finished,
+  };
+};
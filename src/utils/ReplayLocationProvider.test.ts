@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPipeline } from '@/test/runPipeline';
+import { Milestone } from './Milestones';
+import { ReplayLocationProvider, SyntheticLocationProvider, generateSyntheticFixes } from './ReplayLocationProvider';
+
+const MILESTONES: Milestone[] = [
+  { id: '0-60', kind: 'speed', speed: 60, label: '0-60 km/h', color: '' },
+  { id: '0-100', kind: 'speed', speed: 100, label: '0-100 km/h', color: '' },
+  { id: '60-100', kind: 'range', from: 60, to: 100, label: '60-100 km/h', color: '' },
+  { id: 'quarterMile', kind: 'distance', distance: 402.336, label: '1/4 Mile', color: '' },
+];
+
+// Standing still, then a steady 10 km/h per second from between two fixes
+const LAUNCH = 1.05;     // seconds
+const ACCELERATION = 10; // km/h per second
+const speedProfile = (time: number) => Math.max(0, (time - LAUNCH) * ACCELERATION);
+const syntheticOptions = { speedProfile, duration: 25, frequency: 10, startTimestamp: 1_700_000_000_000 };
+
+// The timer starts at the first fix above the 5 km/h noise floor: 5.5 km/h at 1.6 s
+const TIMER_START = 1.6;
+
+describe('replay and synthetic location providers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('times speed targets and ranges from a synthetic run', async () => {
+    const run = await runPipeline(new SyntheticLocationProvider(syntheticOptions), MILESTONES);
+
+    // Live targets take the first fix at or past them: 60 km/h at 7.1 s, 100 km/h at 11.1 s
+    expect(run.times['0-60'].time).toBeCloseTo(7.1 - TIMER_START, 3);
+    expect(run.times['0-100'].time).toBeCloseTo(11.1 - TIMER_START, 3);
+    // Ranges interpolate both crossings
+    expect(run.times['60-100'].time).toBeCloseTo(40 / ACCELERATION, 2);
+  });
+
+  it('times the quarter mile from a synthetic run', async () => {
+    const run = await runPipeline(new SyntheticLocationProvider(syntheticOptions), MILESTONES);
+
+    // Distance covered since the timer start: a/2 ((t - LAUNCH)² - (TIMER_START - LAUNCH)²),
+    // timed at the first fix past the line
+    const acceleration = ACCELERATION / 3.6;
+    const launch = TIMER_START - LAUNCH;
+    const expected = Math.sqrt(2 * 402.336 / acceleration + launch * launch) + LAUNCH - TIMER_START;
+    expect(Math.abs(run.times.quarterMile.time - expected)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('replays recorded fixes to the same results at any playback rate', async () => {
+    const fixes = generateSyntheticFixes(syntheticOptions);
+    const asRecorded = await runPipeline(new ReplayLocationProvider(fixes), MILESTONES);
+    const fast = await runPipeline(new ReplayLocationProvider(fixes, { rate: 8 }), MILESTONES);
+
+    expect(fast.times).toEqual(asRecorded.times);
+    expect(fast.distance).toBe(asRecorded.distance);
+  });
+
+  it('advances its clock with the fixes and reports the end of the replay', async () => {
+    vi.useFakeTimers();
+    const fixes = generateSyntheticFixes({ ...syntheticOptions, duration: 1 });
+    const onFinished = vi.fn();
+    const provider = new ReplayLocationProvider(fixes, { onFinished });
+    const clocks: number[] = [];
+
+    provider.start(() => clocks.push(provider.now()));
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    expect(clocks).toEqual(fixes.map(fix => fix.timestamp - fixes[0].timestamp));
+    expect(onFinished).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,151 @@
+// Location providers that play back recorded or generated fixes on a virtual clock
+
+import { GnssPosition, LocationProvider, LocationProviderError } from './LocationProvider';
+import { RawFix } from './RunStore';
+
+const EARTH_RADIUS = 6371000; // metres
+
+export interface ReplayOptions {
+  rate?: number;            // playback speed, 1 = as recorded
+  onFinished?: () => void;  // called after the last fix has been delivered
+}
+
+export const rawFixToPosition = (fix: RawFix): GnssPosition => ({
+  coords: {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    altitude: fix.altitude,
+    accuracy: fix.accuracy ?? NaN,
+    altitudeAccuracy: fix.altitudeAccuracy,
+    speed: fix.speed,
+    heading: fix.heading,
+  },
+  timestamp: fix.timestamp,
+  satellites: fix.satellites,
+  hdop: fix.hdop,
+});
+
+/**
+ * Delivers a fixed list of fixes with their recorded spacing, scaled by the playback
+ * rate. The clock only moves when a fix is delivered, so every timing computed from
+ * it depends on the fixes alone and a replay always produces the same run.
+ */
+export class ReplayLocationProvider implements LocationProvider {
+  readonly label: string = 'Replay';
+  private readonly positions: GnssPosition[];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private clock = 0;
+
+  constructor(fixes: RawFix[] | GnssPosition[], private readonly options: ReplayOptions = {}) {
+    this.positions = fixes
+      .map(fix => ('coords' in fix ? fix : rawFixToPosition(fix)))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  getUnavailableReason(): string | null {
+    return this.positions.length > 0 ? null : 'Nothing to replay';
+  }
+
+  getCurrentPosition(): Promise<GnssPosition> {
+    return this.positions.length > 0
+      ? Promise.resolve(this.positions[0])
+      : Promise.reject({ code: 2, message: 'Nothing to replay' } as LocationProviderError);
+  }
+
+  start(onPosition: (position: GnssPosition) => void) {
+    this.stop();
+
+    const rate = this.options.rate ?? 1;
+    const first = this.positions[0]?.timestamp ?? 0;
+
+    const deliver = (index: number) => {
+      if (index >= this.positions.length) {
+        this.timer = null;
+        this.options.onFinished?.();
+        return;
+      }
+
+      const position = this.positions[index];
+      this.clock = position.timestamp - first;
+      onPosition(position);
+
+      const next = this.positions[index + 1];
+      const delay = next ? (next.timestamp - position.timestamp) / rate : 0;
+      this.timer = setTimeout(() => deliver(index + 1), delay);
+    };
+
+    this.timer = setTimeout(() => deliver(0), 0);
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  now(): number {
+    return this.clock;
+  }
+}
+
+export interface SyntheticOptions extends ReplayOptions {
+  speedProfile: (time: number) => number; // km/h at a time in seconds
+  duration: number;          // seconds
+  frequency?: number;        // fixes per second
+  startTimestamp?: number;   // epoch milliseconds of the first fix
+  origin?: { latitude: number; longitude: number };
+  heading?: number;          // degrees from true north
+  accuracy?: number;         // metres reported with every fix
+}
+
+/** Generates fixes along a straight line from a speed profile */
+export const generateSyntheticFixes = ({
+  speedProfile,
+  duration,
+  frequency = 10,
+  startTimestamp = 0,
+  origin = { latitude: 51.5, longitude: -0.12 },
+  heading = 90,
+  accuracy = 3,
+}: SyntheticOptions): GnssPosition[] => {
+  const positions: GnssPosition[] = [];
+  const headingRad = heading * Math.PI / 180;
+  const count = Math.floor(duration * frequency);
+  let distance = 0;
+  let lastSpeed = speedProfile(0) / 3.6;
+
+  for (let i = 0; i <= count; i++) {
+    const time = i / frequency;
+    const speed = Math.max(0, speedProfile(time) / 3.6);
+    if (i > 0) distance += ((lastSpeed + speed) / 2) / frequency;
+    lastSpeed = speed;
+
+    // Flat-earth offset is plenty for a few kilometres of straight line
+    const north = distance * Math.cos(headingRad);
+    const east = distance * Math.sin(headingRad);
+    positions.push({
+      coords: {
+        latitude: origin.latitude + (north / EARTH_RADIUS) * 180 / Math.PI,
+        longitude: origin.longitude + (east / (EARTH_RADIUS * Math.cos(origin.latitude * Math.PI / 180))) * 180 / Math.PI,
+        altitude: null,
+        accuracy,
+        altitudeAccuracy: null,
+        speed,
+        heading,
+      },
+      timestamp: startTimestamp + Math.round(time * 1000),
+    });
+  }
+
+  return positions;
+};
+
+/** Replays fixes generated from a speed profile, for demos and pipeline tests */
+export class SyntheticLocationProvider extends ReplayLocationProvider {
+  readonly label = 'Synthetic';
+
+  constructor(options: SyntheticOptions) {
+    super(generateSyntheticFixes(options), options);
+  }
+}
@@ -0,0 +1,162 @@
+// Confidence intervals and quality grades for milestone times
+
+import { Milestone, MilestoneTime, TimingResults } from './Milestones';
+import { SmoothedPoint, SmoothedRun, fixTimes } from './RunSmoothing';
+import { speedNoiseFromAccuracy } from './SpeedKalmanFilter';
+import { StoredRun } from './RunStore';
+
+export type ResultGrade = 'A' | 'B' | 'C' | 'D';
+
+export interface ResultUncertainty {
+  interval: number; // ± seconds, 95% confidence
+  grade: ResultGrade;
+}
+
+export type UncertaintyResults = Record<string, ResultUncertainty>;
+
+// Upper bound of the 95% interval for each grade; anything wider is a D
+const GRADE_LIMITS: [ResultGrade, number][] = [['A', 0.05], ['B', 0.1], ['C', 0.2]];
+
+const CONFIDENCE_FACTOR = 1.96; // standard deviations in a 95% interval
+const RESIDUAL_WINDOW = 1;      // seconds either side of an endpoint whose fixes are compared
+const MIN_ACCELERATION = 0.5;   // m/s², keeps speed crossings on a flat trace from blowing up
+const MIN_SPEED = 1;            // m/s, the same for distance targets reached at a crawl
+
+interface TimedFix {
+  time: number;            // seconds on the run timer
+  speed: number;           // m/s
+  accuracy: number | null; // metres
+}
+
+const timedFixes = (run: StoredRun): TimedFix[] => {
+  const times = fixTimes(run.rawFixes);
+  const fixes: TimedFix[] = [];
+  run.rawFixes.forEach((fix, index) => {
+    const time = times[index];
+    const speed = fix.speed ?? (fix.fusedSpeed !== undefined ? fix.fusedSpeed / 3.6 : null);
+    if (time !== null && speed !== null && !fix.outlier) {
+      fixes.push({ time, speed, accuracy: fix.accuracy });
+    }
+  });
+  return fixes;
+};
+
+// Smoothed state at a time, interpolated linearly and clamped to the ends of the trace
+const sampleAt = (points: SmoothedPoint[], time: number): SmoothedPoint => {
+  if (time <= points[0].time) return points[0];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].time >= time) {
+      const prev = points[i - 1];
+      const next = points[i];
+      const ratio = (time - prev.time) / (next.time - prev.time);
+      const mix = (a: number, b: number) => a + (b - a) * ratio;
+      return {
+        time,
+        speed: mix(prev.speed, next.speed),
+        acceleration: mix(prev.acceleration, next.acceleration),
+        distance: mix(prev.distance, next.distance),
+        speedSigma: mix(prev.speedSigma, next.speedSigma),
+      };
+    }
+  }
+  return points[points.length - 1];
+};
+
+// Interval between the fixes either side of a time
+const fixGap = (fixes: TimedFix[], time: number): number => {
+  const next = fixes.findIndex(fix => fix.time >= time);
+  if (next > 0) return fixes[next].time - fixes[next - 1].time;
+
+  // Outside the recording: fall back to the typical interval
+  const gaps = fixes.slice(1).map((fix, i) => fix.time - fixes[i].time).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 1;
+};
+
+/**
+ * Standard deviation in m/s of the speed at a time, combining the smoother's covariance,
+ * the scatter of nearby fixes around the smoothed trace (at least the scatter their
+ * reported accuracy implies) and the error of interpolating between fixes under jerk.
+ */
+const speedSigma = (fixes: TimedFix[], points: SmoothedPoint[], time: number): number => {
+  const filter = sampleAt(points, time).speedSigma / 3.6;
+
+  const nearby = fixes.filter(fix => Math.abs(fix.time - time) <= RESIDUAL_WINDOW);
+  let measurement = 0;
+  if (nearby.length > 0) {
+    const residuals = nearby.map(fix => fix.speed - sampleAt(points, fix.time).speed / 3.6);
+    const rms = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+    const accuracies = nearby.map(fix => fix.accuracy).filter((a): a is number => a !== null).sort((a, b) => a - b);
+    const reported = speedNoiseFromAccuracy(accuracies.length > 0 ? accuracies[Math.floor(accuracies.length / 2)] : null);
+    measurement = Math.max(rms, reported) / Math.sqrt(nearby.length);
+  }
+
+  // Linear interpolation between fixes misses the curvature of the trace by up to j·Δt²/8
+  const gap = fixGap(fixes, time);
+  const jerk = (sampleAt(points, time + gap / 2).acceleration - sampleAt(points, time - gap / 2).acceleration) / gap;
+  const interpolation = Math.abs(jerk) * gap * gap / 8;
+
+  return Math.sqrt(filter * filter + measurement * measurement + interpolation * interpolation);
+};
+
+// Timing error of the moment the trace rises through a speed
+const speedCrossingSigma = (fixes: TimedFix[], points: SmoothedPoint[], time: number): number =>
+  speedSigma(fixes, points, time) / Math.max(MIN_ACCELERATION, sampleAt(points, time).acceleration);
+
+// Timing error of the moment a distance is covered
+const distanceSigma = (fixes: TimedFix[], points: SmoothedPoint[], time: number): number => {
+  // Errors in neighbouring speed estimates are strongly correlated, so the distance error
+  // is their sum over the run rather than their sum in quadrature
+  let distance = 0;
+  for (let i = 1; i < points.length && points[i].time <= time; i++) {
+    distance += (points[i].speedSigma / 3.6) * (points[i].time - points[i - 1].time);
+  }
+  const local = speedSigma(fixes, points, time) * fixGap(fixes, time);
+  return Math.sqrt(distance * distance + local * local) / Math.max(MIN_SPEED, sampleAt(points, time).speed / 3.6);
+};
+
+const gradeFor = (interval: number): ResultGrade =>
+  GRADE_LIMITS.find(([, limit]) => interval <= limit)?.[0] ?? 'D';
+
+const estimateOne = (milestone: Milestone, result: MilestoneTime, fixes: TimedFix[], points: SmoothedPoint[]): ResultUncertainty => {
+  // Standing starts are timed from the first moving fix; the launch lies anywhere in the gap
+  // before it. A rollout start also carries the error of the distance it is located by.
+  const launch = fixGap(fixes, 0) / Math.sqrt(12);
+  const rollout = result.start > 0 ? distanceSigma(fixes, points, result.start) : 0;
+  const start = milestone.kind === 'range'
+    ? speedCrossingSigma(fixes, points, result.start)
+    : Math.sqrt(launch * launch + rollout * rollout);
+  const end = milestone.kind === 'distance'
+    ? distanceSigma(fixes, points, result.end)
+    : speedCrossingSigma(fixes, points, result.end);
+
+  const interval = CONFIDENCE_FACTOR * Math.sqrt(start * start + end * end);
+  return { interval, grade: gradeFor(interval) };
+};
+
+/**
+ * 95% confidence intervals and grades for a run's milestone times, from its raw fixes
+ * and the smoothed trajectory. Works for live and smoothed times alike, since both are
+ * timed on the same run timer.
+ */
+export const estimateUncertainties = (run: StoredRun, smoothed: SmoothedRun, times: TimingResults): UncertaintyResults => {
+  const fixes = timedFixes(run);
+  const uncertainties: UncertaintyResults = {};
+  if (fixes.length < 2 || smoothed.points.length < 2) return uncertainties;
+
+  run.milestones.forEach(milestone => {
+    const result = times[milestone.id];
+    if (result) uncertainties[milestone.id] = estimateOne(milestone, result, fixes, smoothed.points);
+  });
+  return uncertainties;
+};
+
+export const formatUncertainty = (uncertainty: ResultUncertainty): string =>
+  `±${uncertainty.interval.toFixed(2)}s`;
+
+/** Text colour for a grade badge */
+export const GRADE_CLASSES: Record<ResultGrade, string> = {
+  A: 'text-green-600',
+  B: 'text-primary',
+  C: 'text-warning',
+  D: 'text-destructive',
+};
@@ -0,0 +1,84 @@
+// Rollout: where the timer starts relative to the first movement of the vehicle
+
+import { DataPoint } from './DataProcessing';
+import { Milestone, TimingResults, findTimeForDistance } from './Milestones';
+import { StoredRun } from './RunStore';
+import { METERS_PER_FOOT, UnitSystem, formatDistance } from './Units';
+
+export type RolloutOption = 'none' | 'oneFoot' | 'custom';
+
+export const ROLLOUT_LABELS: Record<RolloutOption, string> = {
+  none: 'None (from first movement)',
+  oneFoot: '1 ft (drag strip / magazine)',
+  custom: 'Custom',
+};
+
+// At the strip the car rolls about a foot before it clears the staging beam and the clock
+// starts; published 0-60 mph and quarter-mile figures copy that convention
+export const ONE_FOOT_ROLLOUT = METERS_PER_FOOT;
+
+/** Rollout distance in metres for a setting */
+export const getRolloutDistance = (option: RolloutOption, custom: number): number => {
+  switch (option) {
+    case 'none':
+      return 0;
+    case 'oneFoot':
+      return ONE_FOOT_ROLLOUT;
+    case 'custom':
+      return Math.max(0, custom);
+  }
+};
+
+/** The convention a result was timed with, e.g. "1 ft rollout" */
+export const formatRollout = (rollout: number | undefined, system: UnitSystem = 'metric'): string => {
+  if (!rollout) return 'No rollout';
+  if (Math.abs(rollout - ONE_FOOT_ROLLOUT) < 0.001) return '1 ft rollout';
+  return `${formatDistance(rollout, system, 2)} rollout`;
+};
+
+/** Runs timed with different rollouts cannot be compared time for time */
+export const haveSameRollout = (runs: StoredRun[]): boolean =>
+  new Set(runs.map(run => run.rollout ?? 0)).size <= 1;
+
+/**
+ * Moves the time origin of standing-start results from the first movement to the moment
+ * the vehicle has covered the rollout distance on the speed trace. Speed targets keep the
+ * moment they were reached; distance targets are measured from the rollout point, so they
+ * end where the trace has covered the target plus the rollout. Rolling ranges do not
+ * depend on the start and are kept as they are.
+ */
+export const applyRollout = (
+  milestones: Milestone[],
+  results: TimingResults,
+  data: DataPoint[],
+  rollout: number
+): TimingResults => {
+  if (rollout <= 0) return results;
+
+  const rolloutTime = findTimeForDistance(data, rollout);
+  const shifted: TimingResults = { ...results };
+
+  for (const milestone of milestones) {
+    const result = results[milestone.id];
+    if (!result || milestone.kind === 'range') continue;
+    if (rolloutTime === null) {
+      shifted[milestone.id] = null;
+      continue;
+    }
+
+    let end = result.end;
+    if (milestone.kind === 'distance') {
+      // Keep the measured crossing and add the time the trace takes over the extra distance
+      const atTarget = findTimeForDistance(data, milestone.distance);
+      const beyond = findTimeForDistance(data, milestone.distance + rollout);
+      const last = data[data.length - 1];
+      end += atTarget !== null && beyond !== null
+        ? beyond - atTarget
+        : rollout / Math.max(last.speed / 3.6, 0.1);
+    }
+
+    shifted[milestone.id] = end > rolloutTime ? { time: end - rolloutTime, start: rolloutTime, end } : null;
+  }
+
+  return shifted;
+};
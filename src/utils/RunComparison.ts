@@ -0,0 +1,146 @@
+// Aligns stored runs at launch and computes where one run gains or loses against another
+
+import { DataPoint } from './DataProcessing';
+import { Milestone } from './Milestones';
+import { StoredRun } from './RunStore';
+
+/** Speed above which a run counts as launched (km/h) */
+export const LAUNCH_SPEED = 3;
+
+export const COMPARISON_COLORS = [
+  'hsl(0 85% 60%)',
+  'hsl(200 100% 50%)',
+  'hsl(140 70% 40%)',
+  'hsl(45 100% 50%)',
+  'hsl(280 70% 60%)',
+  'hsl(20 90% 55%)',
+];
+
+export interface AlignedPoint {
+  time: number;     // seconds since launch
+  speed: number;    // km/h
+  distance: number; // metres since launch
+}
+
+export interface AlignedRun {
+  run: StoredRun;
+  launchTime: number; // run timer seconds at which the launch was detected
+  points: AlignedPoint[];
+}
+
+export interface MilestoneComparison {
+  milestone: Milestone;
+  times: (number | null)[];  // per run, in the order the runs were given
+  deltas: (number | null)[]; // per run, seconds relative to the reference run
+}
+
+export interface TimeDeltaPoint {
+  distance: number; // metres since launch
+  delta: number;    // seconds; positive means behind the reference
+}
+
+/**
+ * Finds the launch as the first rise through LAUNCH_SPEED, interpolated linearly
+ * between samples. Runs that already start above it launch at their first sample.
+ */
+export const findLaunchTime = (data: DataPoint[]): number => {
+  if (data.length === 0) return 0;
+  if (data[0].speed >= LAUNCH_SPEED) return data[0].time;
+
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const next = data[i];
+    if (prev.speed < LAUNCH_SPEED && next.speed >= LAUNCH_SPEED) {
+      const ratio = (LAUNCH_SPEED - prev.speed) / (next.speed - prev.speed);
+      return prev.time + ratio * (next.time - prev.time);
+    }
+  }
+
+  return data[0].time;
+};
+
+/** Shifts a run so that time and distance both start from zero at launch */
+export const alignAtLaunch = (run: StoredRun): AlignedRun => {
+  const launchTime = findLaunchTime(run.dataPoints);
+  const points: AlignedPoint[] = [];
+  let distance = 0;
+
+  run.dataPoints.forEach((point, i) => {
+    if (point.time < launchTime) return;
+
+    const prev = points[points.length - 1];
+    if (prev) {
+      const time = point.time - launchTime;
+      distance += ((prev.speed + point.speed) / 2 / 3.6) * (time - prev.time);
+    } else if (i > 0) {
+      // Start the aligned trace exactly at launch
+      points.push({ time: 0, speed: LAUNCH_SPEED, distance: 0 });
+      distance = ((LAUNCH_SPEED + point.speed) / 2 / 3.6) * (point.time - launchTime);
+    }
+
+    points.push({ time: point.time - launchTime, speed: point.speed, distance });
+  });
+
+  return { run, launchTime, points };
+};
+
+// Time since launch at which a distance was covered, interpolated between samples
+const timeAtDistance = (points: AlignedPoint[], distance: number): number | null => {
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (next.distance >= distance && next.distance > prev.distance) {
+      const ratio = (distance - prev.distance) / (next.distance - prev.distance);
+      return prev.time + ratio * (next.time - prev.time);
+    }
+  }
+  return null;
+};
+
+/**
+ * Time gained or lost against the reference over the distance both runs covered:
+ * the difference in elapsed time at each point along the course.
+ */
+export const buildTimeDelta = (
+  reference: AlignedRun,
+  other: AlignedRun,
+  steps: number = 200
+): TimeDeltaPoint[] => {
+  const lastDistance = (points: AlignedPoint[]) => points.length > 0 ? points[points.length - 1].distance : 0;
+  const maxDistance = Math.min(lastDistance(reference.points), lastDistance(other.points));
+  if (maxDistance <= 0) return [];
+
+  const delta: TimeDeltaPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const distance = (maxDistance * i) / steps;
+    const referenceTime = timeAtDistance(reference.points, distance);
+    const otherTime = timeAtDistance(other.points, distance);
+    if (referenceTime !== null && otherTime !== null) {
+      delta.push({ distance, delta: otherTime - referenceTime });
+    }
+  }
+
+  return delta;
+};
+
+/**
+ * Lines up every milestone recorded by any of the runs. Times are the stored
+ * results; deltas are only given where both the run and the reference have one.
+ */
+export const compareMilestones = (runs: StoredRun[], referenceIndex: number): MilestoneComparison[] => {
+  const milestones = new Map<string, Milestone>();
+  runs.forEach(run => run.milestones.forEach(m => {
+    if (!milestones.has(m.id)) milestones.set(m.id, m);
+  }));
+
+  return Array.from(milestones.values())
+    .map(milestone => {
+      const times = runs.map(run => run.times[milestone.id]?.time ?? null);
+      const referenceTime = times[referenceIndex];
+      const deltas = times.map(time =>
+        time !== null && referenceTime !== null ? time - referenceTime : null
+      );
+      return { milestone, times, deltas };
+    })
+    .filter(row => row.times.some(time => time !== null));
+};
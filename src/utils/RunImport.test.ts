@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPipeline } from '@/test/runPipeline';
+import { IMPERIAL_MILESTONES } from './Milestones';
+import { ReplayLocationProvider } from './ReplayLocationProvider';
+import { createImportedRun, parseLoggerFile } from './RunImport';
+import { buildVbo } from './Vbo';
+import { GNSS_PRESETS, VEHICLE_PRESETS, generateSimulatedFixes } from './VehicleSimulator';
+
+const MILESTONES = IMPERIAL_MILESTONES.filter(m => ['0-30mph', '0-60mph', '0-100mph', 'quarterMile'].includes(m.id));
+
+describe('createImportedRun', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it.each(['phone', 'receiver10', 'receiver25'])('times speed targets at their first crossing in a %s log', async receiver => {
+    const fixes = generateSimulatedFixes({
+      vehicle: VEHICLE_PRESETS.sportsCar,
+      gnss: GNSS_PRESETS[receiver],
+      startTimestamp: 1_700_000_000_000,
+      seed: 3,
+    });
+    const recorded = await runPipeline(new ReplayLocationProvider(fixes, { rate: 100 }), MILESTONES);
+    const run = createImportedRun(parseLoggerFile('run.vbo', buildVbo(recorded)), 'run.vbo', MILESTONES, 'imperial');
+
+    for (const milestone of MILESTONES) {
+      const result = run.times[milestone.id];
+      expect(result, milestone.id).not.toBeNull();
+      if (milestone.kind !== 'speed') continue;
+
+      // Between the fixes either side of the first time the trace reaches the target
+      const after = run.dataPoints.findIndex(point => point.speed >= milestone.speed);
+      expect(result.time, milestone.id).toBeGreaterThanOrEqual(run.dataPoints[after - 1].time);
+      expect(result.time, milestone.id).toBeLessThanOrEqual(run.dataPoints[after].time);
+    }
+  });
+});
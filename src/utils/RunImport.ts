@@ -0,0 +1,81 @@
+// Turns fixes read from an external logger file into a stored run
+
+import { DataPoint, MultiPassInterpolator } from './DataProcessing';
+import { Milestone, createEmptyResults, interpolateMissingMilestones } from './Milestones';
+import { RawFix, StoredRun, createRunId } from './RunStore';
+import { UnitSystem } from './Units';
+import { parseVbo } from './Vbo';
+import { parseNmeaLog } from './Nmea';
+
+/** Logger file types that can be imported, for the file picker */
+export const IMPORT_FILE_TYPES = '.vbo,.nmea,.nma,.log,.txt';
+
+/** Below this the vehicle counts as stationary, matching the live GPS noise floor (km/h) */
+const STATIONARY_SPEED = 5;
+
+/**
+ * The run starts at the last stationary fix before the vehicle first moves, so the
+ * trace begins at standstill the way a live run does.
+ */
+const findLaunchIndex = (fixes: RawFix[]): number => {
+  const firstMoving = fixes.findIndex(fix => (fix.speed ?? 0) * 3.6 >= STATIONARY_SPEED);
+  if (firstMoving <= 0) return 0;
+  return firstMoving - 1;
+};
+
+/** Reads the fixes from a logger file: VBOX files by extension, anything else as NMEA */
+export const parseLoggerFile = (fileName: string, content: string): RawFix[] =>
+  fileName.toLowerCase().endsWith('.vbo') ? parseVbo(content) : parseNmeaLog(content);
+
+export const createImportedRun = (
+  fixes: RawFix[],
+  fileName: string,
+  milestones: Milestone[],
+  unitSystem: UnitSystem
+): StoredRun => {
+  const sorted = [...fixes].sort((a, b) => a.timestamp - b.timestamp);
+  const launchIndex = findLaunchIndex(sorted);
+  const launchTimestamp = sorted[launchIndex].timestamp;
+
+  const rawFixes = sorted.map((fix, index) => ({
+    ...fix,
+    time: index >= launchIndex ? (fix.timestamp - launchTimestamp) / 1000 : null,
+  }));
+
+  const dataPoints: DataPoint[] = rawFixes
+    .filter(fix => fix.time !== null)
+    .map(fix => ({ time: fix.time, speed: Math.max(0, (fix.speed ?? 0) * 3.6) }));
+
+  let distance = 0;
+  for (let i = 1; i < dataPoints.length; i++) {
+    const prev = dataPoints[i - 1];
+    const next = dataPoints[i];
+    distance += ((prev.speed + next.speed) / 2 / 3.6) * (next.time - prev.time);
+  }
+
+  const times = interpolateMissingMilestones(
+    milestones,
+    createEmptyResults(milestones),
+    dataPoints,
+    new MultiPassInterpolator()
+  );
+
+  console.log('📥 Imported run from', fileName, '-', rawFixes.length, 'fixes');
+
+  return {
+    id: createRunId(),
+    createdAt: launchTimestamp,
+    mode: 'acceleration',
+    unitSystem,
+    milestones,
+    times,
+    braking: null,
+    brakingTest: null,
+    distance,
+    dataPoints,
+    rawFixes,
+    accelerometer: [],
+    device: { platform: 'import', userAgent: '' },
+    importedFrom: fileName,
+  };
+};
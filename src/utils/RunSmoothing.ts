@@ -0,0 +1,282 @@
+// Offline Rauch–Tung–Striebel smoothing of a recorded run, for authoritative post-run results
+
+import { DataPoint } from './DataProcessing';
+import { CALIBRATED_ACCEL_NOISE, KalmanEstimate, Matrix2, SpeedKalmanFilter } from './SpeedKalmanFilter';
+import { Milestone, MilestoneTime, TimingResults, findTimeForDistance } from './Milestones';
+import { TrapSpeeds, computeTrapSpeeds } from './TrapSpeed';
+import { BrakingResult, analyzeBraking } from './BrakingAnalysis';
+import { RawFix, StoredRun } from './RunStore';
+import { applyRollout } from './Rollout';
+
+// Smoothed speeds below this count as standing still when locating the stop of a braking run
+const STOP_SPEED = 1; // km/h
+
+export interface SmoothedPoint {
+  time: number;         // seconds on the run timer
+  speed: number;        // km/h
+  acceleration: number; // m/s², longitudinal
+  distance: number;     // metres since the timer started
+  speedSigma: number;   // km/h, one standard deviation
+}
+
+export interface SmoothedRun {
+  points: SmoothedPoint[];            // from the timer start to the end of the run
+  times: TimingResults;
+  traps: TrapSpeeds;                  // at each distance target reached
+  distance: number;                   // metres
+  braking: BrakingResult | null;
+}
+
+interface Measurement {
+  time: number; // seconds on the run timer
+  speed?: number; // m/s
+  accuracy?: number | null;
+  acceleration?: number; // m/s², longitudinal
+}
+
+interface FilterStep {
+  time: number;
+  prior: KalmanEstimate;
+  posterior: KalmanEstimate;
+}
+
+const multiply = (a: Matrix2, b: Matrix2): Matrix2 => [
+  [a[0][0] * b[0][0] + a[0][1] * b[1][0], a[0][0] * b[0][1] + a[0][1] * b[1][1]],
+  [a[1][0] * b[0][0] + a[1][1] * b[1][0], a[1][0] * b[0][1] + a[1][1] * b[1][1]],
+];
+
+const transpose = (a: Matrix2): Matrix2 => [[a[0][0], a[1][0]], [a[0][1], a[1][1]]];
+
+const subtract = (a: Matrix2, b: Matrix2): Matrix2 => [
+  [a[0][0] - b[0][0], a[0][1] - b[0][1]],
+  [a[1][0] - b[1][0], a[1][1] - b[1][1]],
+];
+
+const add = (a: Matrix2, b: Matrix2): Matrix2 => [
+  [a[0][0] + b[0][0], a[0][1] + b[0][1]],
+  [a[1][0] + b[1][0], a[1][1] + b[1][1]],
+];
+
+const invert = (a: Matrix2): Matrix2 => {
+  const det = a[0][0] * a[1][1] - a[0][1] * a[1][0];
+  return [[a[1][1] / det, -a[0][1] / det], [-a[1][0] / det, a[0][0] / det]];
+};
+
+/**
+ * Run-timer seconds for every fix. Fixes from before the timer started carry no run time,
+ * so they are placed by their receiver timestamps relative to the first timed fix.
+ */
+export const fixTimes = (fixes: RawFix[]): (number | null)[] => {
+  const reference = fixes.find(fix => fix.time !== null);
+  if (!reference) return fixes.map(() => null);
+  return fixes.map(fix => fix.time ?? reference.time + (fix.timestamp - reference.timestamp) / 1000);
+};
+
+const collectMeasurements = (run: StoredRun): Measurement[] => {
+  const times = fixTimes(run.rawFixes);
+  const measurements: Measurement[] = [];
+
+  run.rawFixes.forEach((fix, index) => {
+    const time = times[index];
+    if (time === null || fix.outlier) return;
+
+    // Prefer the receiver's own speed; the fused speed stands in when the source had none
+    const speed = fix.speed ?? (fix.fusedSpeed !== undefined ? fix.fusedSpeed / 3.6 : null);
+    if (speed === null || speed < 0) return;
+    measurements.push({ time, speed, accuracy: fix.accuracy });
+  });
+
+  // Only calibrated samples know which way is forward
+  run.accelerometer.forEach(sample => {
+    if (sample.longitudinal !== undefined) {
+      measurements.push({ time: sample.time, acceleration: sample.longitudinal });
+    }
+  });
+
+  return measurements.sort((a, b) => a.time - b.time);
+};
+
+// Forward pass: the same filter as live, keeping the estimate before and after each update
+const filterForward = (measurements: Measurement[]): FilterStep[] => {
+  const filter = new SpeedKalmanFilter();
+  const steps: FilterStep[] = [];
+
+  for (const measurement of measurements) {
+    if (measurement.speed === undefined && !filter.initialized) continue;
+
+    const last = steps[steps.length - 1];
+    const advanced = filter.predictTo(measurement.time * 1000);
+    const prior = filter.getEstimate();
+
+    if (measurement.speed !== undefined) {
+      filter.updateSpeed(measurement.speed, measurement.accuracy);
+    } else {
+      filter.updateAcceleration(measurement.acceleration, CALIBRATED_ACCEL_NOISE);
+    }
+
+    // Measurements at the same instant fold into a single step
+    if (!advanced && last) {
+      last.posterior = filter.getEstimate();
+    } else {
+      steps.push({ time: measurement.time, prior, posterior: filter.getEstimate() });
+    }
+  }
+
+  return steps;
+};
+
+// Backward pass: each estimate is corrected with everything measured after it
+const smoothBackward = (steps: FilterStep[]): KalmanEstimate[] => {
+  const smoothed: KalmanEstimate[] = new Array(steps.length);
+  smoothed[steps.length - 1] = steps[steps.length - 1].posterior;
+
+  for (let k = steps.length - 2; k >= 0; k--) {
+    const { posterior } = steps[k];
+    const next = steps[k + 1];
+    const dt = next.time - steps[k].time;
+    const F: Matrix2 = [[1, dt], [0, 1]];
+
+    // C = P(k|k) Fᵀ P(k+1|k)⁻¹
+    const gain = multiply(multiply(posterior.covariance, transpose(F)), invert(next.prior.covariance));
+    const correction = [
+      smoothed[k + 1].state[0] - next.prior.state[0],
+      smoothed[k + 1].state[1] - next.prior.state[1],
+    ];
+
+    smoothed[k] = {
+      state: [
+        posterior.state[0] + gain[0][0] * correction[0] + gain[0][1] * correction[1],
+        posterior.state[1] + gain[1][0] * correction[0] + gain[1][1] * correction[1],
+      ],
+      covariance: add(
+        posterior.covariance,
+        multiply(multiply(gain, subtract(smoothed[k + 1].covariance, next.prior.covariance)), transpose(gain))
+      ),
+    };
+  }
+
+  return smoothed;
+};
+
+// First time the trace rises through a speed after a given time, interpolated linearly
+const findCrossing = (points: SmoothedPoint[], speed: number, after: number = 0): number | null => {
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (next.time <= after || !(prev.speed < speed && next.speed >= speed)) continue;
+
+    const time = prev.time + (speed - prev.speed) / (next.speed - prev.speed) * (next.time - prev.time);
+    return Math.max(time, after);
+  }
+  return null;
+};
+
+const timeMilestone = (points: SmoothedPoint[], milestone: Milestone): MilestoneTime | null => {
+  switch (milestone.kind) {
+    case 'speed': {
+      const end = findCrossing(points, milestone.speed);
+      return end !== null ? { time: end, start: 0, end } : null;
+    }
+    case 'distance': {
+      const end = findTimeForDistance(points, milestone.distance);
+      return end !== null ? { time: end, start: 0, end } : null;
+    }
+    case 'range': {
+      const start = findCrossing(points, milestone.from);
+      const end = start !== null ? findCrossing(points, milestone.to, start) : null;
+      return start !== null && end !== null ? { time: end - start, start, end } : null;
+    }
+  }
+};
+
+/**
+ * Re-estimates a stored run from its raw GPS fixes and calibrated accelerometer samples
+ * with a forward filter and a backward RTS pass, so every estimate uses the whole run.
+ * Milestones, distance, trap speeds and braking figures are then recomputed from the
+ * smoothed trajectory. Returns null when the run has too few usable fixes.
+ */
+export const smoothRun = (run: StoredRun): SmoothedRun | null => {
+  const steps = filterForward(collectMeasurements(run));
+  if (steps.length < 2) return null;
+
+  const estimates = smoothBackward(steps);
+  const trajectory = steps.map((step, index) => ({
+    time: step.time,
+    speed: Math.max(0, estimates[index].state[0] * 3.6),
+    acceleration: estimates[index].state[1],
+    speedSigma: Math.sqrt(Math.max(0, estimates[index].covariance[0][0])) * 3.6,
+  }));
+
+  // Results are timed like the live run: from the timer start, interpolated onto t = 0
+  const firstTimed = trajectory.findIndex(point => point.time >= 0);
+  if (firstTimed === -1) return null;
+  const timed = trajectory.slice(firstTimed);
+  if (firstTimed > 0 && timed[0].time > 0) {
+    const prev = trajectory[firstTimed - 1];
+    const next = timed[0];
+    const ratio = -prev.time / (next.time - prev.time);
+    timed.unshift({
+      time: 0,
+      speed: prev.speed + (next.speed - prev.speed) * ratio,
+      acceleration: prev.acceleration + (next.acceleration - prev.acceleration) * ratio,
+      speedSigma: prev.speedSigma + (next.speedSigma - prev.speedSigma) * ratio,
+    });
+  }
+
+  let distance = 0;
+  const points: SmoothedPoint[] = timed.map((point, index) => {
+    if (index > 0) {
+      const prev = timed[index - 1];
+      distance += ((prev.speed + point.speed) / 2 / 3.6) * (point.time - prev.time);
+    }
+    return { ...point, distance };
+  });
+
+  if (run.mode === 'braking') {
+    // The smoothed trace never quite reaches zero, so anything below walking pace is a stop
+    const stopTrace = points.map(p => ({ time: p.time, speed: p.speed < STOP_SPEED ? 0 : p.speed }));
+    return {
+      points,
+      times: {},
+      traps: {},
+      distance,
+      braking: analyzeBraking(stopTrace, run.accelerometer),
+    };
+  }
+
+  const fromMovement: TimingResults = {};
+  run.milestones.forEach(milestone => {
+    fromMovement[milestone.id] = timeMilestone(points, milestone);
+  });
+  // Same timing convention as the live results
+  const times = applyRollout(run.milestones, fromMovement, points, run.rollout ?? 0);
+
+  return { points, times, traps: computeTrapSpeeds(run.milestones, times, points), distance, braking: null };
+};
+
+export interface ReportedResults {
+  times: TimingResults;
+  traps: TrapSpeeds;
+}
+
+/**
+ * The results to report for a run, milestone by milestone: smoothed where the smoothed
+ * trace has the milestone, live where it does not. Runs recorded before the finish margin
+ * stopped right at the final distance, so their smoothed trace can end just short of it;
+ * the headline figure should not go missing for that.
+ */
+export const getReportedResults = (run: StoredRun, smoothed: SmoothedRun | null): ReportedResults => {
+  const liveTraps = computeTrapSpeeds(run.milestones, run.times, run.dataPoints);
+  const times: TimingResults = {};
+  const traps: TrapSpeeds = {};
+
+  run.milestones.forEach(({ id }) => {
+    const smoothedTime = smoothed?.times[id] ?? null;
+    times[id] = smoothedTime ?? run.times[id] ?? null;
+    // The trap goes with the time it ends at
+    const trap = smoothedTime ? smoothed.traps[id] : liveTraps[id];
+    if (trap) traps[id] = trap;
+  });
+
+  return { times, traps };
+};
@@ -0,0 +1,128 @@
+// IndexedDB-backed persistence for completed runs
+
+import { Capacitor } from '@capacitor/core';
+import { DataPoint } from './DataProcessing';
+import { Milestone, TimingResults } from './Milestones';
+import { AccelerometerSample, BrakingResult } from './BrakingAnalysis';
+import { UnitSystem } from './Units';
+import { DragResult } from './DragTree';
+
+export type TestMode = 'acceleration' | 'braking';
+
+/** A geolocation fix exactly as the location source reported it */
+export interface RawFix {
+  timestamp: number;       // epoch milliseconds from the fix
+  time: number | null;     // seconds on the run timer, null before the timer started
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // metres
+  accuracy: number | null; // metres, null when the source does not report it
+  altitudeAccuracy: number | null;
+  speed: number | null;    // m/s as reported by the receiver
+  heading: number | null;  // degrees from true north
+  satellites?: number;     // satellites used in the fix, when the source reports it
+  hdop?: number;           // horizontal dilution of precision, when the source reports it
+  // Processing results, only set for fixes that passed the accuracy filter
+  fusedSpeed?: number;     // km/h after outlier handling and sensor fusion
+  outlier?: boolean;       // flagged by the live OutlierDetector
+}
+
+export interface DeviceInfo {
+  platform: string;
+  userAgent: string;
+}
+
+export interface StoredRun {
+  id: string;
+  createdAt: number; // epoch milliseconds
+  mode: TestMode;
+  unitSystem: UnitSystem;
+  milestones: Milestone[];
+  times: TimingResults;
+  braking: BrakingResult | null;
+  brakingTest: number | null; // target entry speed (km/h) for braking runs
+  distance: number; // metres
+  dataPoints: DataPoint[];
+  rawFixes: RawFix[];
+  accelerometer: AccelerometerSample[];
+  device: DeviceInfo;
+  simulated?: boolean;
+  vehicle?: string;      // name of the vehicle driven, printed on timeslips
+  importedFrom?: string; // original file name for runs imported from logger files
+  pairedWith?: string;   // id of the opposite-direction run it is averaged with
+  rollout?: number;      // metres the timer started after the first movement; absent on older runs (none)
+  drag?: DragResult;     // drag runs only: the tree and the driver's reaction to it
+}
+
+const DB_NAME = 'speedsnap';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUN_STORE)) {
+          const store = db.createObjectStore(RUN_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the run store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RUN_STORE, mode);
+    const request = operation(transaction.objectStore(RUN_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createRunId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getDeviceInfo = (): DeviceInfo => ({
+  platform: Capacitor.getPlatform(),
+  userAgent: navigator.userAgent,
+});
+
+export const saveRun = async (run: StoredRun): Promise<void> => {
+  await withStore('readwrite', store => store.put(run));
+  console.log('💾 Run saved:', run.id);
+};
+
+export const getRun = async (id: string): Promise<StoredRun | null> => {
+  const run = await withStore<StoredRun | undefined>('readonly', store => store.get(id));
+  return run ?? null;
+};
+
+/** All stored runs, newest first */
+export const listRuns = async (): Promise<StoredRun[]> => {
+  const runs = await withStore<StoredRun[]>('readonly', store => store.index('createdAt').getAll());
+  return runs.reverse();
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,258 @@
+// Validity checks on a stored run: slope, straightness, GPS quality, speed dips and creep
+
+import { RawFix, StoredRun } from './RunStore';
+import { fixTimes } from './RunSmoothing';
+import { angleBetween, bearingBetween, localOffset } from './Geo';
+
+export type ValidityStatus = 'valid' | 'warning' | 'invalid';
+
+export type ValidationCheck = 'slope' | 'heading' | 'gap' | 'accuracy' | 'speedDip' | 'creep';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  severity: Exclude<ValidityStatus, 'valid'>;
+  message: string;
+}
+
+export interface RunValidation {
+  status: ValidityStatus;
+  issues: ValidationIssue[];
+}
+
+// Slope as elevation change over distance covered; downhill runs are gravity assisted
+const SLOPE_WARNING = 1;     // percent either way
+const DOWNHILL_INVALID = 2;  // percent downhill
+const MIN_SLOPE_DISTANCE = 50; // metres, shorter runs cannot resolve a slope from GPS altitude
+const ALTITUDE_AVERAGE = 5;  // fixes averaged at each end, GPS altitude is noisy
+
+// Course deviation from the run's mean direction, at the 90th percentile so one bad fix does not count
+const HEADING_WARNING = 15;  // degrees
+const HEADING_INVALID = 30;  // degrees
+const MIN_COURSE_SPEED = 5;  // m/s, below this the reported course is unreliable
+const MIN_COURSE_STEP = 5;   // metres between fixes for a course from positions
+
+// Gaps between fixes, relative to the run's usual fix interval
+const GAP_WARNING = 1.5;     // seconds, and at least...
+const GAP_FACTOR = 3;        // ...this many usual intervals
+const GAP_INVALID_FACTOR = 2; // invalid once twice the warning threshold
+
+// Reported accuracy well above the run's typical value
+const ACCURACY_SPIKE = 10;   // metres, and at least...
+const ACCURACY_FACTOR = 3;   // ...this many times the median accuracy
+
+// Drops below the highest speed so far, acceleration runs only
+const DIP_WARNING = 5;       // km/h
+const DIP_INVALID = 15;      // km/h
+
+// Movement in the seconds before the timer started, standing starts only
+const CREEP_WINDOW = 3;      // seconds
+const CREEP_SPEED = 3;       // km/h
+const CREEP_FIXES = 2;       // fixes above it, so a single noisy Doppler speed does not count
+// The timer only starts once the speed clears the GPS noise floor, so the launch is under way
+// in the fixes just before it; those rising into the start are the launch, not creep
+const LAUNCH_RAMP = 1.5;     // seconds before the start
+const RAMP_NOISE = 1;        // km/h a rising speed may drop between fixes
+
+interface TimedFix {
+  fix: RawFix;
+  time: number; // seconds on the run timer, negative before the start
+}
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const timedFixes = (run: StoredRun): TimedFix[] => {
+  const times = fixTimes(run.rawFixes);
+  return run.rawFixes
+    .map((fix, index) => ({ fix, time: times[index] }))
+    .filter((item): item is TimedFix => item.time !== null);
+};
+
+// Elevation change between the averaged first and last fixes with an altitude
+const elevationChange = (fixes: TimedFix[]): number | null => {
+  const withAltitude = fixes.filter(({ fix }) => fix.altitude !== null);
+  if (withAltitude.length < ALTITUDE_AVERAGE * 2) return null;
+
+  const mean = (items: TimedFix[]) => items.reduce((sum, { fix }) => sum + fix.altitude, 0) / items.length;
+  return mean(withAltitude.slice(-ALTITUDE_AVERAGE)) - mean(withAltitude.slice(0, ALTITUDE_AVERAGE));
+};
+
+/** Average grade of a run in percent, negative downhill; null when it cannot be resolved */
+export const measureSlope = (run: StoredRun): number | null => {
+  const change = elevationChange(timedFixes(run).filter(item => item.time >= 0 && !item.fix.outlier));
+  return change !== null && run.distance >= MIN_SLOPE_DISTANCE ? change / run.distance * 100 : null;
+};
+
+const checkSlope = (fixes: TimedFix[], distance: number): ValidationIssue[] => {
+  const change = elevationChange(fixes);
+  if (distance < MIN_SLOPE_DISTANCE || change === null) return [];
+
+  const slope = change / distance * 100;
+  const description = `${slope < 0 ? 'Downhill' : 'Uphill'} ${Math.abs(slope).toFixed(1)}% (${Math.abs(change).toFixed(1)} m over the run)`;
+
+  if (-slope > DOWNHILL_INVALID) {
+    return [{ check: 'slope', severity: 'invalid', message: `${description} - gravity assisted` }];
+  }
+  if (Math.abs(slope) > SLOPE_WARNING) {
+    return [{ check: 'slope', severity: 'warning', message: description }];
+  }
+  return [];
+};
+
+const checkHeading = (fixes: TimedFix[]): ValidationIssue[] => {
+  // Courses as reported by the receiver, or from positions where it reports none
+  const courses: number[] = [];
+  fixes.forEach(({ fix }, index) => {
+    if ((fix.speed ?? 0) < MIN_COURSE_SPEED) return;
+    if (fix.heading !== null && Number.isFinite(fix.heading)) {
+      courses.push(fix.heading);
+      return;
+    }
+    const previous = fixes[index - 1]?.fix;
+    if (!previous) return;
+    const { east, north } = localOffset(previous, fix);
+    if (Math.hypot(east, north) >= MIN_COURSE_STEP) {
+      courses.push(bearingBetween(previous, fix));
+    }
+  });
+  if (courses.length < 3) return [];
+
+  // Circular mean, so courses either side of north average correctly
+  const x = courses.reduce((sum, c) => sum + Math.cos(c * Math.PI / 180), 0);
+  const y = courses.reduce((sum, c) => sum + Math.sin(c * Math.PI / 180), 0);
+  const meanCourse = Math.atan2(y, x) * 180 / Math.PI;
+  const deviations = courses.map(c => angleBetween(c, meanCourse)).sort((a, b) => a - b);
+  const deviation = deviations[Math.floor(deviations.length * 0.9)];
+
+  if (deviation > HEADING_INVALID) {
+    return [{ check: 'heading', severity: 'invalid', message: `Course deviated ${deviation.toFixed(0)}° - not a straight line` }];
+  }
+  if (deviation > HEADING_WARNING) {
+    return [{ check: 'heading', severity: 'warning', message: `Course deviated ${deviation.toFixed(0)}°` }];
+  }
+  return [];
+};
+
+const checkGaps = (fixes: TimedFix[]): ValidationIssue[] => {
+  const gaps = fixes.slice(1).map((item, i) => ({ start: fixes[i].time, length: item.time - fixes[i].time }));
+  const usual = median(gaps.map(gap => gap.length));
+  if (usual === null) return [];
+
+  const threshold = Math.max(GAP_WARNING, usual * GAP_FACTOR);
+  const longest = gaps.reduce((max, gap) => (gap.length > max.length ? gap : max), gaps[0]);
+  if (longest.length <= threshold) return [];
+
+  const message = `No GPS fix for ${longest.length.toFixed(1)}s at ${longest.start.toFixed(1)}s`;
+  return [{ check: 'gap', severity: longest.length > threshold * GAP_INVALID_FACTOR ? 'invalid' : 'warning', message }];
+};
+
+const checkAccuracy = (fixes: TimedFix[]): ValidationIssue[] => {
+  const accuracies = fixes.map(({ fix }) => fix.accuracy).filter((a): a is number => a !== null);
+  const typical = median(accuracies);
+  if (typical === null) return [];
+
+  const limit = Math.max(ACCURACY_SPIKE, typical * ACCURACY_FACTOR);
+  const spikes = accuracies.filter(a => a > limit);
+  if (spikes.length === 0) return [];
+
+  return [{
+    check: 'accuracy',
+    severity: 'warning',
+    message: `${spikes.length} fix${spikes.length === 1 ? '' : 'es'} with accuracy worse than ±${limit.toFixed(0)} m (worst ±${Math.max(...spikes).toFixed(0)} m)`,
+  }];
+};
+
+const checkSpeedDips = (run: StoredRun): ValidationIssue[] => {
+  if (run.mode !== 'acceleration') return [];
+
+  // Only the part of the run that produced results matters
+  const ends = Object.values(run.times).filter(Boolean).map(result => result.end);
+  const lastEnd = ends.length > 0 ? Math.max(...ends) : Infinity;
+
+  let peak = 0;
+  let dip = { depth: 0, time: 0 };
+  run.dataPoints.forEach(point => {
+    if (point.time > lastEnd) return;
+    peak = Math.max(peak, point.speed);
+    if (peak - point.speed > dip.depth) dip = { depth: peak - point.speed, time: point.time };
+  });
+  if (dip.depth <= DIP_WARNING) return [];
+
+  const message = `Speed dropped ${dip.depth.toFixed(1)} km/h at ${dip.time.toFixed(1)}s`;
+  return [{ check: 'speedDip', severity: dip.depth > DIP_INVALID ? 'invalid' : 'warning', message }];
+};
+
+const speedOf = ({ fix }: TimedFix): number => (fix.speed ?? 0) * 3.6;
+
+// The fixes before the start, without the launch leading up to it
+const withoutLaunchRamp = (beforeStart: TimedFix[], afterStart: TimedFix[]): TimedFix[] => {
+  let next = afterStart[0];
+  let index = beforeStart.length;
+  while (next && index > 0) {
+    const item = beforeStart[index - 1];
+    if (item.time < -LAUNCH_RAMP || speedOf(item) > speedOf(next) + RAMP_NOISE) break;
+    next = item;
+    index--;
+  }
+  return beforeStart.slice(0, index);
+};
+
+const checkCreep = (run: StoredRun, beforeStart: TimedFix[], afterStart: TimedFix[]): ValidationIssue[] => {
+  if (run.mode !== 'acceleration') return [];
+
+  const moving = withoutLaunchRamp(beforeStart, afterStart).filter(item => item.time >= -CREEP_WINDOW && speedOf(item) > CREEP_SPEED);
+  if (moving.length < CREEP_FIXES) return [];
+
+  // Creeping backwards shows as a course opposite to the run's
+  const runCourse = afterStart.find(({ fix }) => fix.heading !== null && (fix.speed ?? 0) >= MIN_COURSE_SPEED)?.fix.heading;
+  const rolledBack = runCourse !== undefined && moving.some(({ fix }) => fix.heading !== null && angleBetween(fix.heading, runCourse) > 90);
+  const fastest = Math.max(...moving.map(speedOf));
+
+  return [{
+    check: 'creep',
+    severity: rolledBack ? 'invalid' : 'warning',
+    message: rolledBack
+      ? 'Rolled back before launch'
+      : `Moving at up to ${fastest.toFixed(1)} km/h before the timer started`,
+  }];
+};
+
+/**
+ * Inspects a stored run for conditions that make its result unrepresentative. Any
+ * invalid issue makes the run invalid; otherwise any warning makes it a warning.
+ * Runs without raw fixes can only be checked for speed dips.
+ */
+export const validateRun = (run: StoredRun): RunValidation => {
+  const received = timedFixes(run);
+  const fixes = received.filter(item => !item.fix.outlier);
+  const beforeStart = fixes.filter(item => item.time < 0);
+  const afterStart = fixes.filter(item => item.time >= 0);
+
+  const issues = [
+    ...checkSlope(afterStart, run.distance),
+    ...checkHeading(afterStart),
+    // Outliers still arrived, so they do not count towards gaps
+    ...checkGaps(received.filter(item => item.time >= 0)),
+    ...checkAccuracy(afterStart),
+    ...checkSpeedDips(run),
+    ...checkCreep(run, beforeStart, afterStart),
+  ];
+
+  const status: ValidityStatus = issues.some(issue => issue.severity === 'invalid')
+    ? 'invalid'
+    : issues.length > 0 ? 'warning' : 'valid';
+  return { status, issues };
+};
+
+export const VALIDITY_LABELS: Record<ValidityStatus, string> = {
+  valid: 'Valid',
+  warning: 'Warning',
+  invalid: 'Invalid',
+};
+
+/** Status and issues on one line, for exports, e.g. "Warning – 2.1 s GPS gap at 3.4 s" */
+export const summarizeValidation = (validation: RunValidation): string =>
+  [VALIDITY_LABELS[validation.status], ...validation.issues.map(issue => issue.message)].join(' – ');
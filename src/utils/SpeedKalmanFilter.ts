@@ -0,0 +1,128 @@
+// Fuses GPS speed with longitudinal acceleration under a constant-acceleration model
+
+// Spectral density of the white-jerk process noise, m²/s⁵. High enough to follow gear
+// changes and brake application within a few accelerometer samples.
+const JERK_NOISE_DENSITY = 25;
+
+// Doppler speed is far more precise than position; its standard deviation is taken as
+// this fraction of the reported horizontal accuracy
+const SPEED_NOISE_PER_METRE = 0.1; // (m/s) per metre
+const MIN_SPEED_NOISE = 0.1;       // m/s
+const DEFAULT_ACCURACY = 5;        // metres, when the source reports none
+
+/** Noise of the longitudinal acceleration once the phone mounting is calibrated, m/s² */
+export const CALIBRATED_ACCEL_NOISE = 0.3;
+
+/** Standard deviation in m/s of a GPS speed given the fix's horizontal accuracy in metres */
+export const speedNoiseFromAccuracy = (accuracy: number | null = null): number =>
+  Math.max(MIN_SPEED_NOISE, (accuracy && Number.isFinite(accuracy) ? accuracy : DEFAULT_ACCURACY) * SPEED_NOISE_PER_METRE);
+
+export type Matrix2 = [[number, number], [number, number]];
+
+/** State and covariance at one instant, for smoothing passes over a recorded run */
+export interface KalmanEstimate {
+  state: [number, number]; // speed (m/s), acceleration (m/s²)
+  covariance: Matrix2;
+}
+
+/**
+ * Two-state Kalman filter over [speed (m/s), acceleration (m/s²)]. Between GPS fixes
+ * the accelerometer drives the prediction, so the filter can be read at the sensor rate;
+ * each fix corrects the speed with a measurement noise taken from its reported accuracy.
+ * The filter keeps its own time so predictions and updates from both sources stay in step.
+ */
+export class SpeedKalmanFilter {
+  private x: [number, number] = [0, 0];
+  private P: Matrix2 = [[100, 0], [0, 10]];
+  private time: number | null = null; // milliseconds of the last prediction
+  private hasSpeed = false;
+
+  /** True once a GPS speed has been fused; before that the accelerometer has nothing to refine */
+  get initialized(): boolean {
+    return this.hasSpeed;
+  }
+
+  /** Speed in m/s, never negative */
+  get speed(): number {
+    return Math.max(0, this.x[0]);
+  }
+
+  /** Longitudinal acceleration in m/s² */
+  get acceleration(): number {
+    return this.x[1];
+  }
+
+  /** Standard deviation of the speed estimate in m/s */
+  get speedUncertainty(): number {
+    return Math.sqrt(this.P[0][0]);
+  }
+
+  getEstimate(): KalmanEstimate {
+    return {
+      state: [this.x[0], this.x[1]],
+      covariance: [[this.P[0][0], this.P[0][1]], [this.P[1][0], this.P[1][1]]],
+    };
+  }
+
+  /**
+   * Propagates the state to a time in milliseconds. Returns false when the time has not
+   * advanced, e.g. a sensor reading on a replay clock that only moves with each fix.
+   */
+  predictTo(time: number): boolean {
+    if (this.time === null) {
+      this.time = time;
+      return false;
+    }
+
+    const dt = (time - this.time) / 1000;
+    if (dt <= 0) return false;
+    this.time = time;
+
+    // x = F x with F = [[1, dt], [0, 1]]
+    this.x = [this.x[0] + this.x[1] * dt, this.x[1]];
+
+    // P = F P Fᵀ + Q
+    const [[p00, p01], [p10, p11]] = this.P;
+    const q = JERK_NOISE_DENSITY;
+    this.P = [
+      [p00 + dt * (p01 + p10) + dt * dt * p11 + q * dt ** 3 / 3, p01 + dt * p11 + q * dt * dt / 2],
+      [p10 + dt * p11 + q * dt * dt / 2, p11 + q * dt],
+    ];
+    return true;
+  }
+
+  /** Corrects the speed with a GPS measurement in m/s and the fix's horizontal accuracy in metres */
+  updateSpeed(speed: number, accuracy: number | null = null) {
+    const sigma = speedNoiseFromAccuracy(accuracy);
+    this.update(0, speed, sigma * sigma);
+    this.hasSpeed = true;
+  }
+
+  /** Corrects the acceleration with a longitudinal accelerometer reading in m/s² */
+  updateAcceleration(acceleration: number, sigma: number) {
+    this.update(1, acceleration, sigma * sigma);
+  }
+
+  reset() {
+    this.x = [0, 0];
+    this.P = [[100, 0], [0, 10]];
+    this.time = null;
+    this.hasSpeed = false;
+  }
+
+  // Scalar update of one state component: H selects state i
+  private update(i: 0 | 1, measurement: number, variance: number) {
+    const innovation = measurement - this.x[i];
+    const s = this.P[i][i] + variance;
+    const gain = [this.P[0][i] / s, this.P[1][i] / s];
+
+    this.x = [this.x[0] + gain[0] * innovation, this.x[1] + gain[1] * innovation];
+
+    // P = (I - K H) P
+    const row = [this.P[i][0], this.P[i][1]];
+    this.P = [
+      [this.P[0][0] - gain[0] * row[0], this.P[0][1] - gain[0] * row[1]],
+      [this.P[1][0] - gain[1] * row[0], this.P[1][1] - gain[1] * row[1]],
+    ];
+  }
+}
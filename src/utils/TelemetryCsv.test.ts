@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { StoredRun } from './RunStore';
+import { RunValidation } from './RunValidation';
+import { TELEMETRY_CSV_COLUMNS, buildTelemetryCsv } from './TelemetryCsv';
+
+const run: StoredRun = {
+  id: 'run',
+  createdAt: 1_700_000_000_000,
+  mode: 'acceleration',
+  unitSystem: 'metric',
+  milestones: [],
+  times: {},
+  braking: null,
+  brakingTest: null,
+  distance: 0,
+  dataPoints: [{ time: 0, speed: 0 }, { time: 1, speed: 10 }],
+  rawFixes: [],
+  accelerometer: [
+    { time: 0.5, x: 0.1, y: 2.9, z: 0.2 },
+    { time: 0.6, x: 0.1, y: 3.1, z: 0.2, longitudinal: 3.05, lateral: -0.12, vertical: 0.02 },
+  ],
+  device: { platform: 'test', userAgent: '' },
+};
+
+const rowsOf = (csv: string, record: string) =>
+  csv.trim().split('\n').slice(1)
+    .map(line => Object.fromEntries(line.split(',').map((cell, i) => [TELEMETRY_CSV_COLUMNS[i], cell])))
+    .filter(row => row.record === record);
+
+describe('buildTelemetryCsv', () => {
+  it('writes the vehicle-frame acceleration of calibrated samples', () => {
+    const [uncalibrated, calibrated] = rowsOf(buildTelemetryCsv(run), 'accel');
+
+    expect(uncalibrated).toMatchObject({ accel_y_mps2: '2.9', accel_longitudinal_mps2: '', accel_lateral_mps2: '' });
+    expect(calibrated).toMatchObject({
+      accel_y_mps2: '3.1',
+      accel_longitudinal_mps2: '3.05',
+      accel_lateral_mps2: '-0.12',
+      accel_vertical_mps2: '0.02',
+    });
+  });
+
+  it('heads the file with the validity status and each issue', () => {
+    const validation: RunValidation = {
+      status: 'warning',
+      issues: [{ check: 'gap', severity: 'warning', message: '2.1 s GPS gap at 3.4 s' }],
+    };
+    const csv = buildTelemetryCsv(run, {}, validation);
+
+    expect(csv.split('\n')[1]).toMatch(/^validity,/);
+    expect(rowsOf(csv, 'validity')).toMatchObject([{ validity: 'warning', issue: '' }]);
+    expect(rowsOf(csv, 'issue')).toMatchObject([{ validity: 'warning', issue: '2.1 s GPS gap at 3.4 s' }]);
+  });
+});
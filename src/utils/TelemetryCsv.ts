@@ -0,0 +1,193 @@
+// CSV export of everything recorded during a run, for spreadsheets and scripts
+
+import { DataPoint } from './DataProcessing';
+import { StoredRun } from './RunStore';
+import { UncertaintyResults } from './ResultUncertainty';
+import { RunValidation } from './RunValidation';
+
+/**
+ * One row per recorded event, in time order. The record column tells the rows apart:
+ *   fix       - a geolocation fix as reported, plus the live fused speed and outlier flag
+ *   sample    - a point of the processed speed trace used for milestone timing
+ *   accel     - an accelerometer sample, in the device frame and, once the phone mounting
+ *               is calibrated, in the vehicle frame
+ *   milestone - a milestone result at the time it was reached, with its 95% confidence
+ *               interval and grade when known
+ *   validity  - the run's validity status, first in the file
+ *   issue     - each validation issue, with its severity in the validity column
+ * Units are always SI / km/h regardless of the display unit system.
+ */
+export const TELEMETRY_CSV_COLUMNS = [
+  'record',
+  'timestamp_ms',
+  'run_time_s',
+  'latitude',
+  'longitude',
+  'altitude_m',
+  'accuracy_m',
+  'gps_speed_mps',
+  'heading_deg',
+  'fused_speed_kmh',
+  'outlier',
+  'accel_x_mps2',
+  'accel_y_mps2',
+  'accel_z_mps2',
+  'accel_longitudinal_mps2',
+  'accel_lateral_mps2',
+  'accel_vertical_mps2',
+  'distance_m',
+  'milestone',
+  'result_s',
+  'ci95_s',
+  'grade',
+  'validity',
+  'issue',
+] as const;
+
+type CsvColumn = typeof TELEMETRY_CSV_COLUMNS[number];
+type CsvRow = Partial<Record<CsvColumn, string | number | boolean | null>>;
+
+// Cumulative distance (trapezoid integration of the speed trace) at each trace point
+const cumulativeDistances = (data: DataPoint[]): number[] => {
+  const distances: number[] = [];
+  data.forEach((point, i) => {
+    if (i === 0) {
+      distances.push(0);
+      return;
+    }
+    const prev = data[i - 1];
+    distances.push(distances[i - 1] + ((prev.speed + point.speed) / 2 / 3.6) * (point.time - prev.time));
+  });
+  return distances;
+};
+
+// Distance covered by a given run time, interpolated within the trace segment
+const distanceAt = (data: DataPoint[], distances: number[], time: number | null): number | null => {
+  if (time === null || data.length === 0) return null;
+  if (time <= data[0].time) return 0;
+
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const next = data[i];
+    if (time <= next.time) {
+      const dt = time - prev.time;
+      const ratio = next.time > prev.time ? dt / (next.time - prev.time) : 0;
+      const speed = prev.speed + ratio * (next.speed - prev.speed);
+      return distances[i - 1] + ((prev.speed + speed) / 2 / 3.6) * dt;
+    }
+  }
+
+  return distances[distances.length - 1];
+};
+
+const formatCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const round = (value: number | null | undefined, digits: number): number | null =>
+  value === null || value === undefined ? null : Number(value.toFixed(digits));
+
+export const buildTelemetryCsv = (
+  run: StoredRun,
+  uncertainties: UncertaintyResults = {},
+  validation: RunValidation | null = null
+): string => {
+  const distances = cumulativeDistances(run.dataPoints);
+  const rows: { sortTime: number; order: number; row: CsvRow }[] = [];
+
+  // The verdict on the whole run heads the file, ahead of the fixes from before the start
+  if (validation) {
+    rows.push({ sortTime: -Infinity, order: -1, row: { record: 'validity', validity: validation.status } });
+    validation.issues.forEach(issue => {
+      rows.push({
+        sortTime: -Infinity,
+        order: -1,
+        row: { record: 'issue', validity: issue.severity, issue: issue.message },
+      });
+    });
+  }
+
+  run.rawFixes.forEach((fix, index) => {
+    rows.push({
+      // Fixes from before the timer started keep their order at the top
+      sortTime: fix.time ?? -Infinity,
+      order: index,
+      row: {
+        record: 'fix',
+        timestamp_ms: fix.timestamp,
+        run_time_s: round(fix.time, 3),
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        altitude_m: fix.altitude,
+        accuracy_m: fix.accuracy,
+        gps_speed_mps: fix.speed,
+        heading_deg: fix.heading,
+        fused_speed_kmh: round(fix.fusedSpeed, 2),
+        outlier: fix.outlier,
+        distance_m: round(distanceAt(run.dataPoints, distances, fix.time), 2),
+      },
+    });
+  });
+
+  run.dataPoints.forEach((point, index) => {
+    rows.push({
+      sortTime: point.time,
+      order: index,
+      row: {
+        record: 'sample',
+        run_time_s: round(point.time, 3),
+        fused_speed_kmh: round(point.speed, 2),
+        distance_m: round(distances[index], 2),
+      },
+    });
+  });
+
+  run.accelerometer.forEach((sample, index) => {
+    rows.push({
+      sortTime: sample.time,
+      order: index,
+      row: {
+        record: 'accel',
+        run_time_s: round(sample.time, 3),
+        accel_x_mps2: round(sample.x, 4),
+        accel_y_mps2: round(sample.y, 4),
+        accel_z_mps2: round(sample.z, 4),
+        accel_longitudinal_mps2: round(sample.longitudinal, 4),
+        accel_lateral_mps2: round(sample.lateral, 4),
+        accel_vertical_mps2: round(sample.vertical, 4),
+        distance_m: round(distanceAt(run.dataPoints, distances, sample.time), 2),
+      },
+    });
+  });
+
+  run.milestones.forEach((milestone, index) => {
+    const result = run.times[milestone.id];
+    if (!result) return;
+    const uncertainty = uncertainties[milestone.id];
+    rows.push({
+      sortTime: result.end,
+      order: index,
+      row: {
+        record: 'milestone',
+        run_time_s: round(result.end, 3),
+        distance_m: round(distanceAt(run.dataPoints, distances, result.end), 2),
+        milestone: milestone.label,
+        result_s: round(result.time, 3),
+        ci95_s: round(uncertainty?.interval, 3),
+        grade: uncertainty?.grade,
+      },
+    });
+  });
+
+  rows.sort((a, b) => (a.sortTime === b.sortTime ? 0 : a.sortTime - b.sortTime) || a.order - b.order);
+
+  const lines = [
+    TELEMETRY_CSV_COLUMNS.join(','),
+    ...rows.map(({ row }) => TELEMETRY_CSV_COLUMNS.map(column => formatCell(row[column])).join(',')),
+  ];
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,174 @@
+// Drag-strip timeslip: the driver's reaction kept apart from the car's elapsed times
+
+import { DRAG_MILESTONES, Milestone } from './Milestones';
+import { StoredRun } from './RunStore';
+import { SmoothedRun, fixTimes, getReportedResults } from './RunSmoothing';
+import { TREE_PRESETS, TreeType } from './DragTree';
+import { RunValidation, VALIDITY_LABELS, ValidityStatus, measureSlope, median } from './RunValidation';
+import { ResultGrade, UncertaintyResults } from './ResultUncertainty';
+import { formatRollout } from './Rollout';
+import { UnitSystem, formatDistance, toDisplaySpeed } from './Units';
+
+// Increments that carry a speed on the slip, as at the strip
+const SPEED_INCREMENTS = ['eighthMile', 'quarterMile'];
+
+// Increment labels as printed on a strip's slip
+const SLIP_LABELS: Record<string, string> = {
+  '60ft': "60'",
+  '330ft': "330'",
+  eighthMile: '1/8',
+  '1000ft': "1000'",
+  quarterMile: '1/4',
+};
+
+export interface TimeslipSplit {
+  milestone: Milestone;
+  time: number | null;  // seconds from the launch
+  speed: number | null; // km/h trap speed, 1/8 and 1/4 mile only
+}
+
+/** What the track was like during the run, from the recorded fixes */
+export interface TimeslipConditions {
+  slope: number | null;    // percent, negative downhill
+  fixRate: number | null;  // Hz
+  accuracy: number | null; // metres, median reported horizontal accuracy
+}
+
+export interface Timeslip {
+  createdAt: number;
+  vehicle: string | null;
+  tree: TreeType;
+  reactionTime: number | null; // seconds, negative on a red light
+  redLight: boolean;
+  rollout: number;             // metres, the timing convention of the splits
+  splits: TimeslipSplit[];
+  elapsedTime: number | null;  // 1/4 mile ET, from the launch so it excludes the reaction
+  packageTime: number | null;  // reaction plus elapsed time: what decides a heads-up race
+  conditions: TimeslipConditions;
+  validity: ValidityStatus | null;
+  grade: ResultGrade | null;   // of the elapsed time
+}
+
+/** A line of the printed slip: a label and its value, or a dividing rule */
+export type TimeslipLine =
+  | { kind: 'row'; label: string; value: string; emphasis?: 'strong' | 'alert' }
+  | { kind: 'rule' };
+
+const getConditions = (run: StoredRun): TimeslipConditions => {
+  const times = fixTimes(run.rawFixes).filter((time): time is number => time !== null);
+  const intervals = times.slice(1).map((time, index) => time - times[index]).filter(interval => interval > 0);
+  const interval = median(intervals);
+  return {
+    slope: measureSlope(run),
+    fixRate: interval ? 1 / interval : null,
+    accuracy: median(run.rawFixes.map(fix => fix.accuracy).filter((accuracy): accuracy is number => accuracy !== null)),
+  };
+};
+
+/**
+ * Builds the timeslip of a drag run. The elapsed times start at the launch, never at the
+ * green, so a slow reaction does not show up as a slow car. Smoothed times are used when
+ * the raw fixes allow it, and the grade is that of the smoothed elapsed time.
+ */
+export const buildTimeslip = (
+  run: StoredRun,
+  smoothed: SmoothedRun | null,
+  validation: RunValidation | null = null,
+  uncertainties: UncertaintyResults = {}
+): Timeslip | null => {
+  if (!run.drag) return null;
+
+  const { times, traps } = getReportedResults(run, smoothed);
+  const splits = DRAG_MILESTONES.map(milestone => {
+    const time = times[milestone.id]?.time ?? null;
+    const hasSpeed = time !== null && SPEED_INCREMENTS.includes(milestone.id);
+    return {
+      milestone,
+      time,
+      speed: hasSpeed ? traps[milestone.id]?.trap ?? null : null,
+    };
+  });
+
+  const { reactionTime, redLight, tree } = run.drag;
+  const elapsedTime = splits.find(split => split.milestone.id === 'quarterMile')?.time ?? null;
+  return {
+    createdAt: run.createdAt,
+    vehicle: run.vehicle ?? null,
+    tree,
+    reactionTime,
+    redLight,
+    rollout: run.rollout ?? 0,
+    splits,
+    elapsedTime,
+    packageTime: reactionTime !== null && elapsedTime !== null ? reactionTime + elapsedTime : null,
+    conditions: getConditions(run),
+    validity: validation?.status ?? null,
+    grade: uncertainties.quarterMile?.grade ?? null,
+  };
+};
+
+/** Reaction time to three decimals, as the tree measures it */
+export const formatReactionTime = (reactionTime: number | null): string =>
+  reactionTime !== null ? `${reactionTime.toFixed(3)}s` : '—';
+
+const formatSlipTime = (time: number | null): string => (time !== null ? time.toFixed(3) : '—');
+
+const formatConditions = ({ slope, fixRate, accuracy }: TimeslipConditions, system: UnitSystem): string =>
+  [
+    slope !== null ? `${slope >= 0 ? '+' : ''}${slope.toFixed(1)}% slope` : null,
+    fixRate !== null ? `${fixRate.toFixed(0)} Hz` : null,
+    accuracy !== null ? `±${formatDistance(accuracy, system, 1)}` : null,
+  ].filter(Boolean).join(' · ') || '—';
+
+/**
+ * The slip in the classic layout: run details, then the reaction time apart from the
+ * incremental elapsed times and trap speeds, then the totals. The on-screen view and the
+ * PNG/PDF exports print the same lines.
+ */
+export const getTimeslipLines = (timeslip: Timeslip, system: UnitSystem = 'metric'): TimeslipLine[] => {
+  const speedLabel = system === 'imperial' ? 'MPH' : 'KM/H';
+  const date = new Date(timeslip.createdAt);
+  const lines: TimeslipLine[] = [
+    { kind: 'row', label: 'DATE', value: date.toLocaleDateString() },
+    { kind: 'row', label: 'TIME', value: date.toLocaleTimeString() },
+    { kind: 'row', label: 'VEHICLE', value: timeslip.vehicle ?? '—' },
+    { kind: 'row', label: 'TREE', value: TREE_PRESETS[timeslip.tree].name },
+    { kind: 'row', label: 'TIMING', value: formatRollout(timeslip.rollout, system) },
+    { kind: 'row', label: 'COND', value: formatConditions(timeslip.conditions, system) },
+    { kind: 'rule' },
+    {
+      kind: 'row',
+      label: 'R/T',
+      value: formatSlipTime(timeslip.reactionTime),
+      emphasis: timeslip.redLight ? 'alert' : 'strong',
+    },
+    { kind: 'rule' },
+  ];
+
+  timeslip.splits.forEach(split => {
+    lines.push({
+      kind: 'row',
+      label: SLIP_LABELS[split.milestone.id] ?? split.milestone.label,
+      value: formatSlipTime(split.time),
+      emphasis: split.milestone.id === 'quarterMile' ? 'strong' : undefined,
+    });
+    if (SPEED_INCREMENTS.includes(split.milestone.id)) {
+      lines.push({
+        kind: 'row',
+        label: speedLabel,
+        value: split.speed !== null ? toDisplaySpeed(split.speed, system).toFixed(2) : '—',
+      });
+    }
+  });
+
+  lines.push(
+    { kind: 'rule' },
+    { kind: 'row', label: 'R/T+ET', value: formatSlipTime(timeslip.packageTime) },
+    { kind: 'row', label: 'VALIDITY', value: timeslip.validity ? VALIDITY_LABELS[timeslip.validity] : '—' },
+    { kind: 'row', label: 'GRADE', value: timeslip.grade ?? '—' },
+  );
+  if (timeslip.redLight) {
+    lines.push({ kind: 'row', label: 'RED LIGHT', value: 'FOUL', emphasis: 'alert' });
+  }
+  return lines;
+};
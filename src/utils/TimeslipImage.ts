@@ -0,0 +1,78 @@
+// Renders a timeslip onto a canvas for PNG and PDF export, entirely in the browser
+
+import { Timeslip, getTimeslipLines } from './Timeslip';
+import { UnitSystem } from './Units';
+import { buildImagePdf } from './ImagePdf';
+
+const WIDTH = 300;       // slip width in CSS pixels, also its width in PDF points
+const PADDING = 20;
+const LINE_HEIGHT = 22;
+const HEADER_HEIGHT = 70;
+const SCALE = 3;         // device pixels per CSS pixel, enough for a sharp print
+const FONT = '"Courier New", Courier, monospace';
+const INK = '#111111';
+const ALERT = '#c62828';
+
+/** Draws the slip as printed at the strip: monospace, black on white, dashed rules */
+export const renderTimeslip = (timeslip: Timeslip, system: UnitSystem = 'metric'): HTMLCanvasElement => {
+  const lines = getTimeslipLines(timeslip, system);
+  const height = HEADER_HEIGHT + lines.length * LINE_HEIGHT + PADDING * 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH * SCALE;
+  canvas.height = height * SCALE;
+  const ctx = canvas.getContext('2d');
+  ctx.scale(SCALE, SCALE);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, height);
+
+  ctx.fillStyle = INK;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold 20px ${FONT}`;
+  ctx.fillText('SPEEDSNAP', WIDTH / 2, PADDING + 12);
+  ctx.font = `12px ${FONT}`;
+  ctx.fillText('GPS DRAG TIMESLIP', WIDTH / 2, PADDING + 36);
+
+  let y = PADDING + HEADER_HEIGHT;
+  lines.forEach(line => {
+    const middle = y + LINE_HEIGHT / 2;
+    if (line.kind === 'rule') {
+      ctx.strokeStyle = INK;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(PADDING, middle);
+      ctx.lineTo(WIDTH - PADDING, middle);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    } else {
+      ctx.fillStyle = line.emphasis === 'alert' ? ALERT : INK;
+      ctx.font = `${line.emphasis ? 'bold ' : ''}14px ${FONT}`;
+      ctx.textAlign = 'left';
+      ctx.fillText(line.label, PADDING, middle);
+      ctx.textAlign = 'right';
+      // Long values such as the conditions shrink to fit beside the label
+      ctx.fillText(line.value, WIDTH - PADDING, middle, WIDTH - PADDING * 2 - ctx.measureText(line.label).width - 12);
+    }
+    y += LINE_HEIGHT;
+  });
+
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+  });
+
+export const timeslipToPng = (timeslip: Timeslip, system: UnitSystem = 'metric'): Promise<Blob> =>
+  toBlob(renderTimeslip(timeslip, system), 'image/png');
+
+/** A PDF page the size of the slip, in points */
+export const timeslipToPdf = async (timeslip: Timeslip, system: UnitSystem = 'metric'): Promise<Blob> => {
+  const canvas = renderTimeslip(timeslip, system);
+  const jpeg = new Uint8Array(await (await toBlob(canvas, 'image/jpeg', 0.95)).arrayBuffer());
+  return buildImagePdf(jpeg, canvas.width, canvas.height, canvas.width / SCALE, canvas.height / SCALE);
+};
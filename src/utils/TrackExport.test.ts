@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { StoredRun } from './RunStore';
+import { RunValidation } from './RunValidation';
+import { buildGpx, buildKml } from './TrackExport';
+import { buildVbo, parseVbo } from './Vbo';
+
+const fix = (time: number) => ({
+  timestamp: 1_700_000_000_000 + time * 1000,
+  time,
+  latitude: 51.5 + time * 0.0001,
+  longitude: -0.12,
+  altitude: 20,
+  accuracy: 3,
+  altitudeAccuracy: null,
+  speed: 10 + time,
+  heading: 0,
+});
+
+const run: StoredRun = {
+  id: 'run',
+  createdAt: 1_700_000_000_000,
+  mode: 'acceleration',
+  unitSystem: 'metric',
+  milestones: [],
+  times: {},
+  braking: null,
+  brakingTest: null,
+  distance: 33,
+  dataPoints: [{ time: 0, speed: 36 }, { time: 2, speed: 43.2 }],
+  rawFixes: [fix(0), fix(1), fix(2)],
+  accelerometer: [],
+  device: { platform: 'test', userAgent: '' },
+};
+
+const validation: RunValidation = {
+  status: 'invalid',
+  issues: [
+    { check: 'slope', severity: 'invalid', message: '2.5% downhill' },
+    { check: 'gap', severity: 'warning', message: '2.1 s GPS gap at 3.4 s' },
+  ],
+};
+
+describe('track exports', () => {
+  it('carry the validity in the GPX metadata', () => {
+    const gpx = buildGpx(run, {}, validation);
+    const metadata = gpx.slice(gpx.indexOf('<metadata>'), gpx.indexOf('</metadata>'));
+
+    expect(metadata).toContain('<desc>Invalid – 2.5% downhill – 2.1 s GPS gap at 3.4 s</desc>');
+    expect(metadata).toContain('<speedsnap:status>invalid</speedsnap:status>');
+    expect(metadata).toContain(
+      '<speedsnap:issue><speedsnap:check>gap</speedsnap:check><speedsnap:severity>warning</speedsnap:severity>' +
+      '<speedsnap:message>2.1 s GPS gap at 3.4 s</speedsnap:message></speedsnap:issue>'
+    );
+  });
+
+  it('describe the validity in the KML document', () => {
+    expect(buildKml(run, {}, validation)).toContain('<description>Invalid – 2.5% downhill – 2.1 s GPS gap at 3.4 s</description>');
+  });
+
+  it('leave the validity out when the run was not checked', () => {
+    expect(buildGpx(run)).not.toContain('speedsnap:Validity');
+    expect(buildKml(run)).not.toMatch(/<Document>\s*<name>[^<]*<\/name>\s*<description>/);
+  });
+
+  it('comment the VBO file with the validity without changing its data', () => {
+    const vbo = buildVbo(run, validation);
+    const comments = vbo.slice(vbo.indexOf('[comments]'), vbo.indexOf('[column names]'));
+
+    expect(comments).toContain('Validity: Invalid\r\nInvalid: 2.5% downhill\r\nWarning: 2.1 s GPS gap at 3.4 s');
+    expect(parseVbo(vbo)).toEqual(parseVbo(buildVbo(run)));
+  });
+});
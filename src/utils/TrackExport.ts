@@ -0,0 +1,226 @@
+// GPX 1.1 and KML export of the recorded track for mapping tools
+
+import { RawFix, StoredRun } from './RunStore';
+import { Milestone, MilestoneTime } from './Milestones';
+import { formatBrakingTest } from './BrakingAnalysis';
+import { ResultUncertainty, UncertaintyResults, formatUncertainty } from './ResultUncertainty';
+import { RunValidation, summarizeValidation } from './RunValidation';
+import { formatDistance } from './Units';
+
+const GPX_EXTENSION_NS = 'https://speedsnap.app/xmlschemas/TrackPointExtension/v1';
+const GARMIN_TPX_NS = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v2';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const isoTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const runTitle = (run: StoredRun): string => {
+  const date = new Date(run.createdAt).toLocaleString();
+  return run.mode === 'braking' && run.brakingTest !== null
+    ? `SpeedSnap braking ${formatBrakingTest(run.brakingTest, run.unitSystem)} – ${date}`
+    : `SpeedSnap run – ${date}`;
+};
+
+export interface TrackPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+}
+
+/** Position at a run time, interpolated linearly between the surrounding timed fixes */
+export const positionAt = (fixes: RawFix[], time: number): TrackPosition | null => {
+  const timed = fixes.filter(fix => fix.time !== null);
+  if (timed.length === 0) return null;
+  if (time <= timed[0].time) return timed[0];
+
+  for (let i = 1; i < timed.length; i++) {
+    const prev = timed[i - 1];
+    const next = timed[i];
+    if (time <= next.time) {
+      const ratio = next.time > prev.time ? (time - prev.time) / (next.time - prev.time) : 0;
+      return {
+        latitude: prev.latitude + ratio * (next.latitude - prev.latitude),
+        longitude: prev.longitude + ratio * (next.longitude - prev.longitude),
+        altitude: prev.altitude !== null && next.altitude !== null
+          ? prev.altitude + ratio * (next.altitude - prev.altitude)
+          : prev.altitude,
+      };
+    }
+  }
+
+  return timed[timed.length - 1];
+};
+
+// A milestone result as text, with its confidence interval and grade when known
+const describeResult = (milestone: Milestone, result: MilestoneTime, uncertainty?: ResultUncertainty): string => {
+  const time = `${result.time.toFixed(2)} s${uncertainty ? ` ${formatUncertainty(uncertainty)} (grade ${uncertainty.grade})` : ''}`;
+  return milestone.kind === 'range'
+    ? `${time} (rolling, ${result.start.toFixed(2)}–${result.end.toFixed(2)} s)`
+    : time;
+};
+
+// Each reached milestone with the position it was reached at
+const milestonePositions = (run: StoredRun) =>
+  run.milestones.flatMap(milestone => {
+    const result = run.times[milestone.id];
+    const position = result ? positionAt(run.rawFixes, result.end) : null;
+    return result && position ? [{ milestone, result, position }] : [];
+  });
+
+// The run's validity status and each issue as SpeedSnap metadata extension elements
+const gpxValidity = (validation: RunValidation): string => {
+  const issues = validation.issues.map(issue =>
+    `<speedsnap:issue><speedsnap:check>${issue.check}</speedsnap:check><speedsnap:severity>${issue.severity}</speedsnap:severity>` +
+    `<speedsnap:message>${escapeXml(issue.message)}</speedsnap:message></speedsnap:issue>`
+  );
+  return `<speedsnap:Validity><speedsnap:status>${validation.status}</speedsnap:status>${issues.join('')}</speedsnap:Validity>`;
+};
+
+/**
+ * GPX 1.1 track with one trackpoint per fix. Receiver speed and heading go into the
+ * Garmin TrackPointExtension that most tools understand; horizontal accuracy and the
+ * fused speed go into a SpeedSnap extension. Each milestone is a waypoint carrying its
+ * time, 95% confidence interval and grade; the run's validity is in the metadata.
+ */
+export const buildGpx = (
+  run: StoredRun,
+  uncertainties: UncertaintyResults = {},
+  validation: RunValidation | null = null
+): string => {
+  const waypoints = milestonePositions(run).map(({ milestone, result, position }) => {
+    const uncertainty = uncertainties[milestone.id];
+    const values = [
+      `<speedsnap:time>${result.time.toFixed(3)}</speedsnap:time>`,
+      ...(uncertainty ? [
+        `<speedsnap:ci95>${uncertainty.interval.toFixed(3)}</speedsnap:ci95>`,
+        `<speedsnap:grade>${uncertainty.grade}</speedsnap:grade>`,
+      ] : []),
+    ];
+    return [
+      `  <wpt lat="${position.latitude.toFixed(8)}" lon="${position.longitude.toFixed(8)}">`,
+      ...(position.altitude !== null ? [`    <ele>${position.altitude.toFixed(2)}</ele>`] : []),
+      `    <name>${escapeXml(milestone.label)}</name>`,
+      `    <desc>${escapeXml(describeResult(milestone, result, uncertainty))}</desc>`,
+      `    <extensions><speedsnap:Result>${values.join('')}</speedsnap:Result></extensions>`,
+      '  </wpt>',
+    ].join('\n');
+  });
+
+  const trackpoints = run.rawFixes.map(fix => {
+    const garmin: string[] = [];
+    if (fix.speed !== null) garmin.push(`<gpxtpx:speed>${fix.speed.toFixed(3)}</gpxtpx:speed>`);
+    if (fix.heading !== null) garmin.push(`<gpxtpx:course>${fix.heading.toFixed(1)}</gpxtpx:course>`);
+
+    const speedsnap: string[] = [];
+    if (fix.accuracy !== null) speedsnap.push(`<speedsnap:accuracy>${fix.accuracy.toFixed(2)}</speedsnap:accuracy>`);
+    if (fix.fusedSpeed !== undefined) speedsnap.push(`<speedsnap:fusedSpeed>${(fix.fusedSpeed / 3.6).toFixed(3)}</speedsnap:fusedSpeed>`);
+    if (fix.time !== null) speedsnap.push(`<speedsnap:runTime>${fix.time.toFixed(3)}</speedsnap:runTime>`);
+
+    return [
+      `      <trkpt lat="${fix.latitude.toFixed(8)}" lon="${fix.longitude.toFixed(8)}">`,
+      ...(fix.altitude !== null ? [`        <ele>${fix.altitude.toFixed(2)}</ele>`] : []),
+      `        <time>${isoTime(fix.timestamp)}</time>`,
+      '        <extensions>',
+      ...(garmin.length > 0 ? [`          <gpxtpx:TrackPointExtension>${garmin.join('')}</gpxtpx:TrackPointExtension>`] : []),
+      ...(speedsnap.length > 0 ? [`          <speedsnap:TrackPointExtension>${speedsnap.join('')}</speedsnap:TrackPointExtension>`] : []),
+      '        </extensions>',
+      '      </trkpt>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="SpeedSnap" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="${GARMIN_TPX_NS}" xmlns:speedsnap="${GPX_EXTENSION_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    '  <metadata>',
+    `    <name>${escapeXml(runTitle(run))}</name>`,
+    ...(validation ? [`    <desc>${escapeXml(summarizeValidation(validation))}</desc>`] : []),
+    `    <time>${isoTime(run.createdAt)}</time>`,
+    ...(validation ? [`    <extensions>${gpxValidity(validation)}</extensions>`] : []),
+    '  </metadata>',
+    ...waypoints,
+    '  <trk>',
+    `    <name>${escapeXml(runTitle(run))}</name>`,
+    '    <trkseg>',
+    ...trackpoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+const kmlCoordinate = (position: TrackPosition): string =>
+  `${position.longitude.toFixed(8)},${position.latitude.toFixed(8)},${(position.altitude ?? 0).toFixed(2)}`;
+
+const kmlPlacemark = (name: string, description: string, position: TrackPosition, styleUrl: string): string => [
+  '    <Placemark>',
+  `      <name>${escapeXml(name)}</name>`,
+  `      <description>${escapeXml(description)}</description>`,
+  `      <styleUrl>${styleUrl}</styleUrl>`,
+  `      <Point><coordinates>${kmlCoordinate(position)}</coordinates></Point>`,
+  '    </Placemark>',
+].join('\n');
+
+/**
+ * KML document with the track as a line and a placemark where each milestone was reached,
+ * described with its time, 95% confidence interval and grade. The document description
+ * gives the run's validity.
+ */
+export const buildKml = (
+  run: StoredRun,
+  uncertainties: UncertaintyResults = {},
+  validation: RunValidation | null = null
+): string => {
+  const placemarks: string[] = [];
+
+  const start = positionAt(run.rawFixes, 0);
+  if (start) placemarks.push(kmlPlacemark('Start', 'Timer start', start, '#start'));
+
+  milestonePositions(run).forEach(({ milestone, result, position }) => {
+    const description = describeResult(milestone, result, uncertainties[milestone.id]);
+    placemarks.push(kmlPlacemark(milestone.label, description, position, '#milestone'));
+  });
+
+  if (run.braking) {
+    const stop = positionAt(run.rawFixes, run.braking.stoppingTime);
+    if (stop) {
+      placemarks.push(kmlPlacemark(
+        'Stop',
+        `Stopped in ${formatDistance(run.braking.stoppingDistance, run.unitSystem, 2)} (${run.braking.stoppingTime.toFixed(2)} s)`,
+        stop,
+        '#milestone'
+      ));
+    }
+  }
+
+  const coordinates = run.rawFixes.map(kmlCoordinate).join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(runTitle(run))}</name>`,
+    ...(validation ? [`    <description>${escapeXml(summarizeValidation(validation))}</description>`] : []),
+    '    <Style id="track"><LineStyle><color>ff3c3cf0</color><width>4</width></LineStyle></Style>',
+    '    <Style id="start"><IconStyle><color>ff00c000</color></IconStyle></Style>',
+    '    <Style id="milestone"><IconStyle><color>ff00a5ff</color></IconStyle></Style>',
+    '    <Placemark>',
+    '      <name>Track</name>',
+    '      <styleUrl>#track</styleUrl>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${coordinates}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
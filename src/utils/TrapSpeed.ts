@@ -0,0 +1,61 @@
+// Trap speeds: average speed over the last stretch before each distance target
+
+import { DataPoint } from './DataProcessing';
+import { Milestone, TimingResults, findTimeForDistance, speedAt } from './Milestones';
+import { METERS_PER_FOOT } from './Units';
+
+// Drag strips time the last 66 ft before the 1/8 and 1/4 mile lines for the trap speed
+export const TRAP_LENGTH = 66 * METERS_PER_FOOT;
+
+export interface TrapSpeed {
+  start: number;         // elapsed time the vehicle entered the trap
+  length: number;        // metres, shorter than TRAP_LENGTH for targets closer than the trap
+  trap: number;          // km/h, average over the trap
+  instantaneous: number; // km/h at the line
+}
+
+export type TrapSpeeds = Record<string, TrapSpeed>;
+
+// Distance covered by a given time, integrating the trace with the trapezoidal rule
+const distanceAt = (data: DataPoint[], time: number): number => {
+  let distance = 0;
+  for (let i = 1; i < data.length && data[i - 1].time < time; i++) {
+    const prev = data[i - 1];
+    const next = data[i];
+    const end = Math.min(next.time, time);
+    const span = next.time - prev.time;
+    const endSpeed = span > 0 ? prev.speed + (next.speed - prev.speed) * (end - prev.time) / span : next.speed;
+    distance += ((prev.speed + endSpeed) / 2 / 3.6) * (end - prev.time);
+  }
+  return distance;
+};
+
+/**
+ * Trap and instantaneous speed at each distance target that was reached. The trap ends at
+ * the time the target was timed at and starts where the trace had covered TRAP_LENGTH less,
+ * so it follows the same line as the elapsed time whatever the rollout.
+ */
+export const computeTrapSpeeds = (milestones: Milestone[], times: TimingResults, data: DataPoint[]): TrapSpeeds => {
+  const traps: TrapSpeeds = {};
+  if (data.length < 2) return traps;
+
+  milestones.forEach(milestone => {
+    const result = times[milestone.id];
+    if (milestone.kind !== 'distance' || !result) return;
+
+    const lineDistance = distanceAt(data, result.end);
+    const length = Math.min(TRAP_LENGTH, milestone.distance, lineDistance);
+    const start = findTimeForDistance(data, lineDistance - length);
+    const instantaneous = speedAt(data, result.end) ?? data[data.length - 1].speed;
+    if (start === null || result.end <= start || length <= 0) return;
+
+    traps[milestone.id] = {
+      start,
+      length,
+      trap: length / (result.end - start) * 3.6,
+      instantaneous,
+    };
+  });
+
+  return traps;
+};
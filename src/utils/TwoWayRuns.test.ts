@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { EARTH_RADIUS } from './Geo';
+import { Milestone, TimingResults } from './Milestones';
+import { StoredRun } from './RunStore';
+import { RunCourse, areOppositeCourses, averageTwoWay, findOppositeRun, getRunCourse } from './TwoWayRuns';
+
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+const CREATED_AT = 1_700_000_000_000;
+
+const MILESTONES: Milestone[] = [
+  { id: '0-100', kind: 'speed', speed: 100, label: '0-100 km/h', color: '' },
+  { id: 'quarterMile', kind: 'distance', distance: 402.336, label: '1/4 Mile', color: '' },
+];
+
+// Position a given number of metres east and north of the origin
+const at = ([east, north]: [number, number]) => ({
+  latitude: ORIGIN.latitude + (north / EARTH_RADIUS) * 180 / Math.PI,
+  longitude: ORIGIN.longitude + (east / (EARTH_RADIUS * Math.cos(ORIGIN.latitude * Math.PI / 180))) * 180 / Math.PI,
+});
+
+/**
+ * A run driven in a straight line between two points. Its fixes carry no speed, so there
+ * is nothing to smooth and the reported times are the live ones.
+ */
+const makeRun = (
+  id: string,
+  from: [number, number],
+  to: [number, number],
+  times: TimingResults = {},
+  overrides: Partial<StoredRun> = {}
+): StoredRun => ({
+  id,
+  createdAt: CREATED_AT,
+  mode: 'acceleration',
+  unitSystem: 'metric',
+  milestones: MILESTONES,
+  times,
+  braking: null,
+  brakingTest: null,
+  distance: Math.hypot(to[0] - from[0], to[1] - from[1]),
+  dataPoints: [],
+  rawFixes: Array.from({ length: 11 }, (_, i) => ({
+    ...at([from[0] + (to[0] - from[0]) * i / 10, from[1] + (to[1] - from[1]) * i / 10]),
+    timestamp: CREATED_AT + i * 1000,
+    time: i,
+    altitude: null,
+    accuracy: 3,
+    altitudeAccuracy: null,
+    speed: null,
+    heading: null,
+  })),
+  accelerometer: [],
+  device: { platform: 'test', userAgent: '' },
+  ...overrides,
+});
+
+const courseOf = (from: [number, number], to: [number, number]): RunCourse => getRunCourse(makeRun('course', from, to));
+
+const result = (time: number) => ({ time, start: 0, end: time });
+
+describe('areOppositeCourses', () => {
+  const eastbound = courseOf([0, 0], [400, 0]);
+
+  it('accepts the same stretch driven back the other way', () => {
+    expect(areOppositeCourses(eastbound, courseOf([400, 0], [0, 0]))).toBe(true);
+  });
+
+  it('accepts courses a little off exactly opposite on the same road', () => {
+    expect(areOppositeCourses(eastbound, courseOf([400, 20], [0, -10]))).toBe(true);
+  });
+
+  it('rejects a run in the same direction', () => {
+    expect(areOppositeCourses(eastbound, courseOf([0, 0], [400, 0]))).toBe(false);
+  });
+
+  it('rejects a parallel road', () => {
+    expect(areOppositeCourses(eastbound, courseOf([400, 60], [0, 60]))).toBe(false);
+  });
+
+  it('rejects a stretch further along the same road', () => {
+    expect(areOppositeCourses(eastbound, courseOf([1200, 0], [800, 0]))).toBe(false);
+  });
+});
+
+describe('findOppositeRun', () => {
+  const run = makeRun('run', [0, 0], [400, 0]);
+
+  it('pairs with the closest opposite run in time', () => {
+    const earlier = makeRun('earlier', [400, 0], [0, 0], {}, { createdAt: CREATED_AT - 20 * 60 * 1000 });
+    const later = makeRun('later', [400, 0], [0, 0], {}, { createdAt: CREATED_AT + 5 * 60 * 1000 });
+    const sameWay = makeRun('sameWay', [0, 0], [400, 0], {}, { createdAt: CREATED_AT + 60 * 1000 });
+
+    expect(findOppositeRun(run, [run, earlier, later, sameWay])?.id).toBe('later');
+  });
+
+  it('leaves simulated runs and imported logs out', () => {
+    const recorded = makeRun('recorded', [400, 0], [0, 0], {}, { createdAt: CREATED_AT + 30 * 60 * 1000 });
+    const simulated = makeRun('simulated', [400, 0], [0, 0], {}, { createdAt: CREATED_AT + 60 * 1000, simulated: true });
+    const imported = makeRun('imported', [400, 0], [0, 0], {}, { createdAt: CREATED_AT + 60 * 1000, importedFrom: 'log.vbo' });
+
+    expect(findOppositeRun(run, [simulated, imported, recorded])?.id).toBe('recorded');
+    expect(findOppositeRun({ ...run, simulated: true }, [recorded])).toBeNull();
+    expect(findOppositeRun({ ...run, importedFrom: 'log.vbo' }, [recorded])).toBeNull();
+  });
+
+  it('leaves runs already paired with another run out', () => {
+    const paired = makeRun('paired', [400, 0], [0, 0], {}, { pairedWith: 'other' });
+    expect(findOppositeRun(run, [paired])).toBeNull();
+  });
+});
+
+describe('averageTwoWay', () => {
+  it('averages each milestone and splits off the direction effect', () => {
+    const a = makeRun('a', [0, 0], [400, 0], { '0-100': result(5.0), quarterMile: result(13.2) });
+    const b = makeRun('b', [400, 0], [0, 0], { '0-100': result(5.4), quarterMile: result(13.6) });
+    const twoWay = averageTwoWay(a, b);
+
+    expect(twoWay.opposite).toBe(true);
+    expect(twoWay.milestones.map(m => m.milestone.id)).toEqual(['0-100', 'quarterMile']);
+    expect(twoWay.milestones[0].times).toEqual([5.0, 5.4]);
+    expect(twoWay.milestones[0].average).toBeCloseTo(5.2, 6);
+    expect(twoWay.milestones[0].directionEffect).toBeCloseTo(-0.2, 6);
+    expect(twoWay.milestones[1].average).toBeCloseTo(13.4, 6);
+  });
+
+  it('leaves the average out where one direction has no time', () => {
+    const a = makeRun('a', [0, 0], [400, 0], { '0-100': result(5.0), quarterMile: result(13.2) });
+    const b = makeRun('b', [400, 0], [0, 0], { '0-100': result(5.4), quarterMile: null });
+    const [, quarterMile] = averageTwoWay(a, b).milestones;
+
+    expect(quarterMile.times).toEqual([13.2, null]);
+    expect(quarterMile.average).toBeNull();
+    expect(quarterMile.directionEffect).toBeNull();
+  });
+
+  it('only averages milestones both runs were timed against', () => {
+    const a = makeRun('a', [0, 0], [400, 0], { '0-100': result(5.0) });
+    const b = makeRun('b', [400, 0], [0, 0], { '0-100': result(5.4) }, { milestones: [MILESTONES[0]] });
+
+    expect(averageTwoWay(a, b).milestones.map(m => m.milestone.id)).toEqual(['0-100']);
+  });
+});
@@ -0,0 +1,177 @@
+// Two-way runs: pairing acceleration runs driven in opposite directions over the same stretch
+
+import { Milestone } from './Milestones';
+import { StoredRun, saveRun } from './RunStore';
+import { fixTimes, getReportedResults, smoothRun } from './RunSmoothing';
+import { measureSlope } from './RunValidation';
+import { angleBetween, bearingBetween, localOffset } from './Geo';
+
+// How far from exactly opposite the two courses may be
+const OPPOSITE_TOLERANCE = 20;          // degrees
+// Lateral distance between the two tracks that still counts as the same road
+const SAME_ROAD_OFFSET = 25;            // metres
+// Share of the shorter run that must lie alongside the other
+const MIN_OVERLAP = 0.5;
+// Runs further apart in time were driven in different conditions
+const MAX_PAIR_INTERVAL = 60 * 60 * 1000; // milliseconds
+const MIN_COURSE_LENGTH = 30;           // metres, shorter tracks give no usable direction
+
+export interface RunCourse {
+  start: { latitude: number; longitude: number };
+  end: { latitude: number; longitude: number };
+  heading: number; // degrees from true north, start to end
+  length: number;  // metres
+}
+
+export interface TwoWayMilestone {
+  milestone: Milestone;
+  times: [number | null, number | null];
+  average: number | null;
+  // Half the difference between the directions: what slope and wind added to the first run
+  directionEffect: number | null;
+  trapSpeeds: [number | null, number | null]; // km/h, distance targets only
+  averageTrapSpeed: number | null;
+}
+
+export interface TwoWayResult {
+  runs: [StoredRun, StoredRun];
+  courses: [RunCourse | null, RunCourse | null];
+  slopes: [number | null, number | null]; // percent, negative downhill
+  opposite: boolean;
+  milestones: TwoWayMilestone[];
+}
+
+/** Straight line from the start of the timed run to its last fix */
+export const getRunCourse = (run: StoredRun): RunCourse | null => {
+  const times = fixTimes(run.rawFixes);
+  const timed = run.rawFixes.filter((fix, index) => times[index] !== null && times[index] >= 0 && !fix.outlier);
+  if (timed.length < 2) return null;
+
+  const start = timed[0];
+  const end = timed[timed.length - 1];
+  const { east, north } = localOffset(start, end);
+  const length = Math.hypot(east, north);
+  if (length < MIN_COURSE_LENGTH) return null;
+
+  return {
+    start: { latitude: start.latitude, longitude: start.longitude },
+    end: { latitude: end.latitude, longitude: end.longitude },
+    heading: bearingBetween(start, end),
+    length,
+  };
+};
+
+/**
+ * True when two courses run in opposite directions along the same road: headings about
+ * 180° apart, the second track close to the line of the first and overlapping it.
+ */
+export const areOppositeCourses = (a: RunCourse, b: RunCourse): boolean => {
+  if (angleBetween(a.heading, b.heading) < 180 - OPPOSITE_TOLERANCE) return false;
+
+  // Position along and across the first course, in metres from its start
+  const headingRad = a.heading * Math.PI / 180;
+  const project = (point: RunCourse['start']) => {
+    const { east, north } = localOffset(a.start, point);
+    return {
+      along: east * Math.sin(headingRad) + north * Math.cos(headingRad),
+      across: east * Math.cos(headingRad) - north * Math.sin(headingRad),
+    };
+  };
+  const bStart = project(b.start);
+  const bEnd = project(b.end);
+  if (Math.abs(bStart.across) > SAME_ROAD_OFFSET || Math.abs(bEnd.across) > SAME_ROAD_OFFSET) return false;
+
+  const overlap = Math.min(a.length, Math.max(bStart.along, bEnd.along)) - Math.max(0, Math.min(bStart.along, bEnd.along));
+  return overlap >= MIN_OVERLAP * Math.min(a.length, b.length);
+};
+
+/**
+ * Only acceleration runs recorded on this device are paired: simulated runs and logs
+ * imported from other devices would average real results with unrelated ones
+ */
+export const isPairable = (run: StoredRun): boolean =>
+  run.mode === 'acceleration' && !run.simulated && !run.importedFrom;
+
+/** The closest run in time that was driven the opposite way over the same stretch */
+export const findOppositeRun = (run: StoredRun, runs: StoredRun[]): StoredRun | null => {
+  const course = isPairable(run) ? getRunCourse(run) : null;
+  if (!course) return null;
+
+  const candidates = runs.filter(other =>
+    other.id !== run.id &&
+    isPairable(other) &&
+    (!other.pairedWith || other.pairedWith === run.id) &&
+    Math.abs(other.createdAt - run.createdAt) <= MAX_PAIR_INTERVAL
+  );
+
+  let best: StoredRun | null = null;
+  candidates.forEach(other => {
+    const otherCourse = getRunCourse(other);
+    if (!otherCourse || !areOppositeCourses(course, otherCourse)) return;
+    if (!best || Math.abs(other.createdAt - run.createdAt) < Math.abs(best.createdAt - run.createdAt)) {
+      best = other;
+    }
+  });
+  return best;
+};
+
+/**
+ * Averages a pair of runs milestone by milestone. Slope and a steady wind help one
+ * direction as much as they hinder the other, so the mean of the two times cancels them
+ * to first order. Smoothed times are used where the raw fixes allow it, milestone by milestone.
+ */
+export const averageTwoWay = (a: StoredRun, b: StoredRun): TwoWayResult => {
+  const courses: [RunCourse | null, RunCourse | null] = [getRunCourse(a), getRunCourse(b)];
+  const [resultsA, resultsB] = [a, b].map(run => getReportedResults(run, smoothRun(run)));
+  const mean = (values: [number | null, number | null]) =>
+    values[0] !== null && values[1] !== null ? (values[0] + values[1]) / 2 : null;
+
+  // Milestones both runs were timed against
+  const milestones = a.milestones
+    .filter(milestone => b.milestones.some(other => other.id === milestone.id))
+    .map(milestone => {
+      const times: [number | null, number | null] = [
+        resultsA.times[milestone.id]?.time ?? null,
+        resultsB.times[milestone.id]?.time ?? null,
+      ];
+      const trapSpeeds: [number | null, number | null] = [
+        resultsA.traps[milestone.id]?.trap ?? null,
+        resultsB.traps[milestone.id]?.trap ?? null,
+      ];
+      const average = mean(times);
+      return {
+        milestone,
+        times,
+        average,
+        directionEffect: average !== null ? times[0] - average : null,
+        trapSpeeds,
+        averageTrapSpeed: mean(trapSpeeds),
+      };
+    });
+
+  return {
+    runs: [a, b],
+    courses,
+    slopes: [measureSlope(a), measureSlope(b)],
+    opposite: courses[0] !== null && courses[1] !== null && areOppositeCourses(courses[0], courses[1]),
+    milestones,
+  };
+};
+
+/** Stores each run's partner so the pair can be reopened from either run */
+export const linkRuns = async (a: StoredRun, b: StoredRun): Promise<[StoredRun, StoredRun]> => {
+  const linked: [StoredRun, StoredRun] = [{ ...a, pairedWith: b.id }, { ...b, pairedWith: a.id }];
+  await Promise.all(linked.map(saveRun));
+  console.log('↔️ Two-way pair linked:', a.id, b.id);
+  return linked;
+};
+
+export const unlinkRuns = async (a: StoredRun, b: StoredRun): Promise<[StoredRun, StoredRun]> => {
+  const unlinked: [StoredRun, StoredRun] = [{ ...a, pairedWith: undefined }, { ...b, pairedWith: undefined }];
+  await Promise.all(unlinked.map(saveRun));
+  return unlinked;
+};
+
+/** Compass point for a heading, e.g. "NE" */
+export const compassPoint = (heading: number): string =>
+  ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'][Math.round(heading / 45) % 8];
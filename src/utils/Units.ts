@@ -0,0 +1,30 @@
+// Unit conversion and formatting. Everything is measured and stored in km/h and metres;
+// conversion to the user's unit system only happens at the display and export boundary.
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const KMH_PER_MPH = 1.609344;
+export const METERS_PER_FOOT = 0.3048;
+export const METERS_PER_MILE = 1609.344;
+
+export const speedUnit = (system: UnitSystem): string => (system === 'imperial' ? 'mph' : 'km/h');
+
+export const distanceUnit = (system: UnitSystem): string => (system === 'imperial' ? 'ft' : 'm');
+
+export const toDisplaySpeed = (kmh: number, system: UnitSystem): number =>
+  system === 'imperial' ? kmh / KMH_PER_MPH : kmh;
+
+export const fromDisplaySpeed = (value: number, system: UnitSystem): number =>
+  system === 'imperial' ? value * KMH_PER_MPH : value;
+
+export const toDisplayDistance = (meters: number, system: UnitSystem): number =>
+  system === 'imperial' ? meters / METERS_PER_FOOT : meters;
+
+export const fromDisplayDistance = (value: number, system: UnitSystem): number =>
+  system === 'imperial' ? value * METERS_PER_FOOT : value;
+
+export const formatSpeed = (kmh: number, system: UnitSystem, digits: number = 0): string =>
+  `${toDisplaySpeed(kmh, system).toFixed(digits)} ${speedUnit(system)}`;
+
+export const formatDistance = (meters: number, system: UnitSystem, digits: number = 1): string =>
+  `${toDisplayDistance(meters, system).toFixed(digits)} ${distanceUnit(system)}`;
@@ -0,0 +1,180 @@
+// RaceLogic VBOX (.vbo) file writer and reader
+
+import { RawFix, StoredRun } from './RunStore';
+import { RunValidation, VALIDITY_LABELS } from './RunValidation';
+
+const VBO_COLUMNS = ['sats', 'time', 'lat', 'long', 'velocity', 'heading', 'height'];
+
+const VBO_HEADER = [
+  'satellites',
+  'time',
+  'latitude',
+  'longitude',
+  'velocity kmh',
+  'heading',
+  'height',
+];
+
+const pad = (value: number, length: number): string => String(value).padStart(length, '0');
+
+// Fixed-width signed number as VBOX writes it, e.g. +03012.34567
+const signed = (value: number, integerDigits: number, decimals: number): string => {
+  const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  return `${value < 0 ? '-' : '+'}${integer.padStart(integerDigits, '0')}.${fraction}`;
+};
+
+// UTC time of day as HHMMSS.SS
+const formatVboTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const seconds = date.getUTCSeconds() + Math.floor(date.getUTCMilliseconds() / 10) / 100;
+  return `${pad(date.getUTCHours(), 2)}${pad(date.getUTCMinutes(), 2)}${seconds.toFixed(2).padStart(5, '0')}`;
+};
+
+const formatVboDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${pad(date.getUTCDate(), 2)}/${pad(date.getUTCMonth() + 1, 2)}/${date.getUTCFullYear()} @ ` +
+    `${pad(date.getUTCHours(), 2)}:${pad(date.getUTCMinutes(), 2)}:${pad(date.getUTCSeconds(), 2)}`;
+};
+
+/**
+ * Writes the recorded fixes in VBO format. Positions are in minutes of arc with
+ * longitude positive to the west, as VBOX loggers record them. Velocity is the
+ * receiver speed, falling back to the fused speed when the receiver gave none. The
+ * run's validity and its issues are written as comments.
+ */
+export const buildVbo = (run: StoredRun, validation: RunValidation | null = null): string => {
+  const rows = run.rawFixes.map(fix => {
+    const velocity = fix.speed !== null ? fix.speed * 3.6 : (fix.fusedSpeed ?? 0);
+    return [
+      pad(fix.satellites ?? 0, 3),
+      formatVboTime(fix.timestamp),
+      signed(fix.latitude * 60, 5, 5),
+      signed(-fix.longitude * 60, 5, 5),
+      velocity.toFixed(3).padStart(7, '0'),
+      (fix.heading ?? 0).toFixed(2).padStart(6, '0'),
+      signed(fix.altitude ?? 0, 5, 2),
+    ].join(' ');
+  });
+
+  return [
+    `File created on ${formatVboDate(run.createdAt)}`,
+    '',
+    '[header]',
+    ...VBO_HEADER,
+    '',
+    '[comments]',
+    'Exported from SpeedSnap',
+    `Run ${run.id}`,
+    ...(validation ? [
+      `Validity: ${VALIDITY_LABELS[validation.status]}`,
+      ...validation.issues.map(issue => `${VALIDITY_LABELS[issue.severity]}: ${issue.message}`),
+    ] : []),
+    '',
+    '[column names]',
+    VBO_COLUMNS.join(' '),
+    '',
+    '[data]',
+    ...rows,
+    '',
+  ].join('\r\n');
+};
+
+// Seconds of the UTC day from HHMMSS.SS
+const parseVboTime = (value: string): number => {
+  const numeric = Number(value);
+  const hours = Math.floor(numeric / 10000);
+  const minutes = Math.floor((numeric % 10000) / 100);
+  const seconds = numeric % 100;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+// Midnight UTC of the day in the "File created on dd/mm/yyyy" line, or today
+const parseVboDay = (line: string | undefined): number => {
+  const match = line?.match(/(\d{2})\/(\d{2})\/(\d{4})/);
+  if (!match) {
+    const now = new Date();
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  }
+  return Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+};
+
+/**
+ * Reads the GPS channels of a VBO file into fixes. Other logger channels are ignored.
+ * Throws if the file has no [data] section or lacks the time, position or velocity columns.
+ */
+export const parseVbo = (content: string): RawFix[] => {
+  const lines = content.split(/\r?\n/);
+  const sections = new Map<string, string[]>();
+  let current: string | null = null;
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    const section = trimmed.match(/^\[(.+)\]$/);
+    if (section) {
+      current = section[1].toLowerCase();
+      sections.set(current, []);
+    } else if (current && trimmed !== '') {
+      sections.get(current).push(trimmed);
+    }
+  });
+
+  const data = sections.get('data');
+  const columnLine = sections.get('column names')?.[0];
+  if (!data || !columnLine) {
+    throw new Error('Not a VBO file: missing [column names] or [data] section');
+  }
+
+  const columns = columnLine.toLowerCase().split(/\s+/);
+  const index = (name: string) => columns.indexOf(name);
+  const [satsCol, timeCol, latCol, longCol, velocityCol, headingCol, heightCol] = VBO_COLUMNS.map(index);
+  if (timeCol < 0 || latCol < 0 || longCol < 0 || velocityCol < 0) {
+    throw new Error('VBO file has no time, lat, long or velocity column');
+  }
+
+  const day = parseVboDay(lines.find(line => line.startsWith('File created on')));
+  const fixes: RawFix[] = [];
+  let dayOffset = 0;
+  let lastSeconds = -Infinity;
+
+  data.forEach(row => {
+    const values = row.split(/\s+/);
+    const seconds = parseVboTime(values[timeCol]);
+    if (!Number.isFinite(seconds)) return;
+
+    // Logs that run past midnight UTC wrap back to 000000.00
+    if (seconds < lastSeconds - 43200) dayOffset += 86400;
+    lastSeconds = seconds;
+
+    const number = (col: number): number | null => {
+      if (col < 0 || values[col] === undefined) return null;
+      const value = Number(values[col]);
+      return Number.isFinite(value) ? value : null;
+    };
+
+    const latitude = number(latCol);
+    const longitude = number(longCol);
+    const velocity = number(velocityCol);
+    if (latitude === null || longitude === null || velocity === null) return;
+
+    const sats = number(satsCol);
+    fixes.push({
+      timestamp: day + (seconds + dayOffset) * 1000,
+      time: null,
+      latitude: latitude / 60,
+      longitude: -longitude / 60,
+      altitude: number(heightCol),
+      accuracy: null,
+      altitudeAccuracy: null,
+      speed: velocity / 3.6,
+      heading: number(headingCol),
+      // Upper bits of the satellite count carry logger flags (DGPS, brake trigger)
+      satellites: sats !== null ? sats & 0x3f : undefined,
+    });
+  });
+
+  if (fixes.length === 0) {
+    throw new Error('VBO file contains no data rows');
+  }
+
+  return fixes;
+};
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPipeline } from '@/test/runPipeline';
+import { DRAG_MILESTONES, IMPERIAL_MILESTONES, Milestone } from './Milestones';
+import { ReplayLocationProvider } from './ReplayLocationProvider';
+import { getReportedResults, smoothRun } from './RunSmoothing';
+import { GNSS_PRESETS, VEHICLE_PRESETS, VehicleParameters, VehicleState, generateSimulatedFixes, simulateLaunch } from './VehicleSimulator';
+
+const GRAVITY = 9.80665;
+const QUARTER_MILE = 402.336;
+
+// Constant power through one gear with nothing to slow it: grip-limited until the power
+// can no longer reach the tyre limit, power-limited from there on
+const constantPower: VehicleParameters = {
+  name: 'Constant power',
+  mass: 1000,
+  powerCurve: [[0, 100], [20000, 100]],
+  redline: 20000,
+  launchRpm: 0,
+  gearRatios: [10],
+  finalDrive: 1,
+  tyreRadius: 0.3,
+  shiftTime: 0,
+  dragCoefficient: 0,
+  frontalArea: 0,
+  tyreGrip: 1,
+  drivenAxleLoad: 1,
+  drivetrainEfficiency: 1,
+  rollingResistance: 0,
+};
+
+/**
+ * Closed form for the constant-power vehicle: a = μg up to v* = P / (μmg), then
+ * v dv/dt = P/m, which gives t = t* + m(v² − v*²)/2P and s = s* + m(v³ − v*³)/3P.
+ */
+const power = 100_000; // W
+const grip = constantPower.tyreGrip * GRAVITY;
+const crossover = power / (constantPower.mass * grip);
+const crossoverTime = crossover / grip;
+const crossoverDistance = crossover * crossover / (2 * grip);
+const timeToSpeed = (speed: number) =>
+  crossoverTime + constantPower.mass * (speed * speed - crossover * crossover) / (2 * power);
+const speedAtDistance = (distance: number) =>
+  Math.cbrt(crossover ** 3 + 3 * power * (distance - crossoverDistance) / constantPower.mass);
+
+const firstState = (states: VehicleState[], reached: (state: VehicleState) => boolean) =>
+  states.find(reached) ?? null;
+
+describe('simulateLaunch', () => {
+  const states = simulateLaunch(constantPower, 20);
+
+  it('accelerates at the grip limit until the power runs out', () => {
+    const state = firstState(states, state => state.time >= crossoverTime / 2);
+    expect(state.speed).toBeCloseTo(grip * state.time, 3);
+  });
+
+  it('matches the closed-form 0-100 km/h time', () => {
+    const state = firstState(states, state => state.speed >= 100 / 3.6);
+    expect(state.time).toBeCloseTo(timeToSpeed(100 / 3.6), 2);
+  });
+
+  it('matches the closed-form quarter-mile time', () => {
+    const state = firstState(states, state => state.distance >= QUARTER_MILE);
+    expect(state.time).toBeCloseTo(timeToSpeed(speedAtDistance(QUARTER_MILE)), 2);
+  });
+
+  it('changes gear at the redline', () => {
+    const sportsCar = simulateLaunch(VEHICLE_PRESETS.sportsCar, 10);
+    const gears = sportsCar.map(state => state.gear);
+    expect(gears[0]).toBe(1);
+    expect(Math.max(...gears)).toBeGreaterThan(1);
+    expect(gears.every((gear, index) => index === 0 || gear >= gears[index - 1])).toBe(true);
+  });
+});
+
+describe('simulated runs through the measurement pipeline', () => {
+  const MILESTONES: Milestone[] = [
+    ...IMPERIAL_MILESTONES.filter(m => m.id === '0-60mph' || m.id === '0-100mph'),
+    ...DRAG_MILESTONES,
+  ];
+  const vehicle = VEHICLE_PRESETS.sportsCar;
+  const truth = simulateLaunch(vehicle, 40);
+  const standingTime = 2;
+  const startTimestamp = 1_700_000_000_000;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it.each(['phone', 'receiver10', 'receiver25'])('reports every target from a %s', async receiver => {
+    const gnss = GNSS_PRESETS[receiver];
+    const fixes = generateSimulatedFixes({ vehicle, gnss, standingTime, startTimestamp, seed: 7 });
+    const run = await runPipeline(new ReplayLocationProvider(fixes, { rate: 100 }), MILESTONES);
+
+    // Run-timer seconds to simulation seconds: the timer started at a fix, and each fix
+    // describes the vehicle one latency earlier
+    const timed = run.rawFixes.find(fix => fix.time !== null);
+    const timerStart = (timed.timestamp - startTimestamp) / 1000 - timed.time;
+    const toSimulation = (time: number) => time + timerStart - gnss.latency - standingTime;
+    // Dropped fixes leave gaps the live results can only be placed at the end of
+    const longestGap = Math.max(...fixes.slice(1).map((fix, index) => fix.timestamp - fixes[index].timestamp)) / 1000;
+
+    const smoothed = smoothRun(run);
+    const reported = getReportedResults(run, smoothed);
+
+    for (const milestone of MILESTONES) {
+      const live = run.times[milestone.id];
+      const final = reported.times[milestone.id];
+      expect(live, `live ${milestone.id}`).not.toBeNull();
+      expect(final, `reported ${milestone.id}`).not.toBeNull();
+
+      const crossing = milestone.kind === 'speed'
+        ? firstState(truth, state => state.speed * 3.6 >= milestone.speed)
+        : firstState(truth, state => state.distance >= (milestone.kind === 'distance' ? milestone.distance : 0));
+
+      // Live results come from the first fix past the target; the reported ones are refined
+      expect(toSimulation(live.time) - crossing.time, `live ${milestone.id}`).toBeGreaterThan(-0.15);
+      expect(toSimulation(live.time) - crossing.time, `live ${milestone.id}`).toBeLessThan(longestGap + 0.15);
+      expect(Math.abs(toSimulation(final.time) - crossing.time), `reported ${milestone.id}`).toBeLessThan(0.15);
+    }
+  });
+});
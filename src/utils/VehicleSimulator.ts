@@ -0,0 +1,274 @@
+// Longitudinal vehicle dynamics and GNSS receiver model for simulated runs
+
+import { GnssPosition } from './LocationProvider';
+
+const AIR_DENSITY = 1.225; // kg/m³ at sea level
+const GRAVITY = 9.80665;   // m/s²
+const EARTH_RADIUS = 6371000; // metres
+
+export interface VehicleParameters {
+  name: string;
+  mass: number;                 // kg, including driver
+  powerCurve: [number, number][]; // [rpm, kW] pairs in ascending rpm
+  redline: number;              // rpm at which the next gear is selected
+  launchRpm: number;            // engine speed held while the clutch slips at launch
+  gearRatios: number[];
+  finalDrive: number;
+  tyreRadius: number;           // metres
+  shiftTime: number;            // seconds without drive during a gear change
+  dragCoefficient: number;
+  frontalArea: number;          // m²
+  tyreGrip: number;             // peak longitudinal friction coefficient
+  drivenAxleLoad: number;       // share of the weight on the driven wheels (0-1)
+  drivetrainEfficiency: number; // 0-1
+  rollingResistance: number;    // coefficient
+}
+
+export interface GnssModel {
+  name: string;
+  frequency: number;     // fixes per second
+  speedNoise: number;    // standard deviation of reported speed, m/s
+  positionNoise: number; // standard deviation of reported position, metres
+  latency: number;       // seconds between the measured state and its timestamp
+  dropoutRate: number;   // probability that a fix is lost (0-1)
+  accuracy: number;      // horizontal accuracy reported with each fix, metres
+}
+
+export const VEHICLE_PRESETS: Record<string, VehicleParameters> = {
+  hatchback: {
+    name: 'Hot hatch',
+    mass: 1450,
+    powerCurve: [[1000, 40], [2500, 110], [4000, 170], [5500, 206], [6500, 195]],
+    redline: 6500,
+    launchRpm: 3000,
+    gearRatios: [3.36, 2.09, 1.47, 1.10, 0.87, 0.72],
+    finalDrive: 3.65,
+    tyreRadius: 0.32,
+    shiftTime: 0.25,
+    dragCoefficient: 0.32,
+    frontalArea: 2.2,
+    tyreGrip: 1.0,
+    drivenAxleLoad: 0.6,
+    drivetrainEfficiency: 0.88,
+    rollingResistance: 0.012,
+  },
+  sportsCar: {
+    name: 'Sports car',
+    mass: 1550,
+    powerCurve: [[1000, 60], [3000, 200], [5000, 300], [6800, 331], [7500, 315]],
+    redline: 7500,
+    launchRpm: 4000,
+    gearRatios: [3.91, 2.29, 1.65, 1.30, 1.08, 0.88, 0.62],
+    finalDrive: 3.44,
+    tyreRadius: 0.34,
+    shiftTime: 0.1,
+    dragCoefficient: 0.30,
+    frontalArea: 2.0,
+    tyreGrip: 1.15,
+    drivenAxleLoad: 0.55,
+    drivetrainEfficiency: 0.9,
+    rollingResistance: 0.011,
+  },
+  electric: {
+    name: 'Electric saloon',
+    mass: 2100,
+    powerCurve: [[0, 300], [6000, 350], [12000, 350], [16000, 280], [18000, 250]],
+    redline: 18000,
+    launchRpm: 0,
+    gearRatios: [1],
+    finalDrive: 9.0,
+    tyreRadius: 0.35,
+    shiftTime: 0,
+    dragCoefficient: 0.23,
+    frontalArea: 2.3,
+    tyreGrip: 1.05,
+    drivenAxleLoad: 1,
+    drivetrainEfficiency: 0.95,
+    rollingResistance: 0.01,
+  },
+};
+
+export const GNSS_PRESETS: Record<string, GnssModel> = {
+  phone: {
+    name: 'Phone (1 Hz)',
+    frequency: 1,
+    speedNoise: 0.3,
+    positionNoise: 2.5,
+    latency: 0.3,
+    dropoutRate: 0.03,
+    accuracy: 5,
+  },
+  receiver10: {
+    name: 'External receiver (10 Hz)',
+    frequency: 10,
+    speedNoise: 0.1,
+    positionNoise: 1.0,
+    latency: 0.05,
+    dropoutRate: 0.005,
+    accuracy: 2,
+  },
+  receiver25: {
+    name: 'External receiver (25 Hz)',
+    frequency: 25,
+    speedNoise: 0.05,
+    positionNoise: 0.5,
+    latency: 0.02,
+    dropoutRate: 0.002,
+    accuracy: 1,
+  },
+};
+
+export interface VehicleState {
+  time: number;     // seconds since launch
+  speed: number;    // m/s
+  distance: number; // metres
+  gear: number;     // 1-based
+}
+
+// Engine power at an engine speed, interpolated linearly along the power curve
+const powerAt = (curve: [number, number][], rpm: number): number => {
+  if (rpm <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [rpm1, kw1] = curve[i];
+    if (rpm <= rpm1) {
+      const [rpm0, kw0] = curve[i - 1];
+      return kw0 + (kw1 - kw0) * (rpm - rpm0) / (rpm1 - rpm0);
+    }
+  }
+  return curve[curve.length - 1][1];
+};
+
+/**
+ * Integrates a full-throttle launch from standstill. Drive force comes from the power
+ * curve through the gearing, limited by tyre grip on the driven axle; aerodynamic drag
+ * and rolling resistance oppose it. Gears change at the redline with no drive for the
+ * shift time.
+ */
+export const simulateLaunch = (
+  vehicle: VehicleParameters,
+  duration: number,
+  step: number = 0.001
+): VehicleState[] => {
+  const states: VehicleState[] = [{ time: 0, speed: 0, distance: 0, gear: 1 }];
+  const gripLimit = vehicle.tyreGrip * vehicle.mass * GRAVITY * vehicle.drivenAxleLoad;
+  let speed = 0;
+  let distance = 0;
+  let gear = 0; // 0-based index into gearRatios
+  let shiftUntil = -1;
+
+  for (let time = step; time <= duration + 1e-9; time += step) {
+    const ratio = vehicle.gearRatios[gear] * vehicle.finalDrive;
+    const wheelRpm = (speed / vehicle.tyreRadius) * 60 / (2 * Math.PI);
+    const rpm = Math.max(wheelRpm * ratio, vehicle.launchRpm);
+
+    if (rpm >= vehicle.redline && gear < vehicle.gearRatios.length - 1) {
+      gear++;
+      shiftUntil = time + vehicle.shiftTime;
+    }
+
+    let driveForce = 0;
+    if (time >= shiftUntil && rpm < vehicle.redline * 1.02) {
+      const power = powerAt(vehicle.powerCurve, rpm) * 1000;
+      const angularSpeed = Math.max(rpm, 500) * 2 * Math.PI / 60;
+      const torque = power / angularSpeed;
+      driveForce = Math.min(torque * ratio * vehicle.drivetrainEfficiency / vehicle.tyreRadius, gripLimit);
+    }
+
+    const dragForce = 0.5 * AIR_DENSITY * vehicle.dragCoefficient * vehicle.frontalArea * speed * speed;
+    const rollingForce = speed > 0 ? vehicle.rollingResistance * vehicle.mass * GRAVITY : 0;
+    const acceleration = (driveForce - dragForce - rollingForce) / vehicle.mass;
+
+    const nextSpeed = Math.max(0, speed + acceleration * step);
+    distance += (speed + nextSpeed) / 2 * step;
+    speed = nextSpeed;
+
+    states.push({ time, speed, distance, gear: gear + 1 });
+  }
+
+  return states;
+};
+
+// Small seeded generator so a simulated run can be reproduced exactly
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  };
+  return { uniform, gaussian };
+};
+
+export interface SimulatedRunOptions {
+  vehicle: VehicleParameters;
+  gnss: GnssModel;
+  duration?: number;        // seconds of full throttle
+  standingTime?: number;    // seconds stationary before launch
+  startTimestamp?: number;  // epoch milliseconds of the first fix
+  origin?: { latitude: number; longitude: number };
+  heading?: number;         // degrees from true north
+  seed?: number;
+}
+
+/**
+ * The fixes a receiver would report for a simulated launch: sampled at the receiver
+ * rate, describing the vehicle as it was one latency earlier, with Gaussian speed and
+ * position noise and randomly dropped fixes.
+ */
+export const generateSimulatedFixes = ({
+  vehicle,
+  gnss,
+  duration = 40,
+  standingTime = 2,
+  startTimestamp = Date.now(),
+  origin = { latitude: 51.5, longitude: -0.12 },
+  heading = 90,
+  seed = 1,
+}: SimulatedRunOptions): GnssPosition[] => {
+  const step = 0.001;
+  const states = simulateLaunch(vehicle, duration, step);
+  const random = createRandom(seed);
+  const headingRad = heading * Math.PI / 180;
+  const fixes: GnssPosition[] = [];
+
+  const stateAt = (time: number): VehicleState => {
+    const index = Math.round(time / step);
+    return states[Math.max(0, Math.min(states.length - 1, index))];
+  };
+
+  const count = Math.floor((standingTime + duration) * gnss.frequency);
+  for (let i = 0; i <= count; i++) {
+    const fixTime = i / gnss.frequency;
+    if (i > 0 && random.uniform() < gnss.dropoutRate) continue;
+
+    // Before launch the vehicle stands still at the origin
+    const state = stateAt(fixTime - standingTime - gnss.latency);
+    const stationary = fixTime - gnss.latency < standingTime;
+    const speed = stationary ? 0 : state.speed;
+    const distance = stationary ? 0 : state.distance;
+
+    const north = distance * Math.cos(headingRad) + random.gaussian() * gnss.positionNoise;
+    const east = distance * Math.sin(headingRad) + random.gaussian() * gnss.positionNoise;
+
+    fixes.push({
+      coords: {
+        latitude: origin.latitude + (north / EARTH_RADIUS) * 180 / Math.PI,
+        longitude: origin.longitude + (east / (EARTH_RADIUS * Math.cos(origin.latitude * Math.PI / 180))) * 180 / Math.PI,
+        altitude: null,
+        accuracy: gnss.accuracy,
+        altitudeAccuracy: null,
+        speed: Math.max(0, speed + random.gaussian() * gnss.speedNoise),
+        heading,
+      },
+      timestamp: startTimestamp + Math.round(fixTime * 1000),
+    });
+  }
+
+  return fixes;
+};